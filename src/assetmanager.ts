@@ -0,0 +1,255 @@
+import { Vec3 } from "gl-matrix";
+import { ModelMesh, ModelParseError } from "./modelmesh";
+import { ObjMaterial, buildObjMesh, parseMtl, parseObj } from "./objloader";
+import {
+  GltfDocument,
+  buildGltfMesh,
+  getExternalBufferUris,
+  getGltfBuffers,
+  isGlb,
+  parseGlb,
+  parseGltf,
+} from "./gltfloader";
+import { buildStlMesh, isStl, parseStl } from "./stlloader";
+import { buildPlyMesh, isPly, parsePly } from "./plyloader";
+
+export enum AssetErrorKind {
+  // The request failed or came back with an error status
+  Missing,
+  // The file arrived but isn't valid
+  Unparsable,
+}
+
+// A file an object needed that couldn't be loaded. object indexes
+// scene.objects.
+export class AssetError extends Error {
+  kind: AssetErrorKind;
+  path: string;
+  object: number;
+
+  constructor(
+    kind: AssetErrorKind,
+    path: string,
+    object: number,
+    reason: string,
+  ) {
+    super(`Object ${object}: ${reason}`);
+    this.name = "AssetError";
+    this.kind = kind;
+    this.path = path;
+    this.object = object;
+  }
+}
+
+// Files are counted once, however many objects share them
+export interface AssetProgress {
+  path: string;
+  loaded: number;
+  total: number;
+}
+
+export type AssetProgressListener = (progress: AssetProgress) => void;
+
+// Rejects fetches, AssetManager turns it into an AssetError for every object
+// that asked for the file
+class MissingFileError extends Error {
+  path: string;
+
+  constructor(path: string, reason: string) {
+    super(`${path}: ${reason}`);
+    this.path = path;
+  }
+}
+
+// A parsed model file, colors the parts without a material with color
+type MeshBuilder = (color: Vec3) => ModelMesh;
+
+// path relative to the directory of from
+const resolvePath = (from: string, path: string) =>
+  from.slice(0, from.lastIndexOf("/") + 1) + path;
+
+enum ModelFormat {
+  Obj,
+  Gltf,
+  Glb,
+  Stl,
+  Ply,
+}
+
+const extensionFormats: Record<string, ModelFormat> = {
+  obj: ModelFormat.Obj,
+  gltf: ModelFormat.Gltf,
+  glb: ModelFormat.Glb,
+  stl: ModelFormat.Stl,
+  ply: ModelFormat.Ply,
+};
+
+// From the extension, or the content when there's no known one. Anything
+// unrecognized is taken for OBJ, which has no signature.
+const getModelFormat = (path: string, data: ArrayBuffer) => {
+  const file = path.split(/[?#]/)[0].split("/").pop()!;
+  const extension = file.slice(file.lastIndexOf(".") + 1).toLowerCase();
+  if (file.includes(".") && extension in extensionFormats) {
+    return extensionFormats[extension];
+  }
+
+  if (isGlb(data)) return ModelFormat.Glb;
+  if (isPly(data)) return ModelFormat.Ply;
+  if (isStl(data)) return ModelFormat.Stl;
+  if (decode(data.slice(0, 256)).trimStart().startsWith("{")) {
+    return ModelFormat.Gltf;
+  }
+  return ModelFormat.Obj;
+};
+
+const decode = (data: ArrayBuffer) => new TextDecoder().decode(data);
+
+// Fetches and parses the files models refer to. Every file is fetched once and
+// kept, so objects sharing a model share the download and the parsing, and
+// everything asked for at the same time loads in parallel.
+export default class AssetManager {
+  private files = new Map<string, Promise<ArrayBuffer>>();
+  private models = new Map<string, Promise<MeshBuilder>>();
+  private listeners = new Set<AssetProgressListener>();
+  private loaded = 0;
+  private total = 0;
+
+  // Calls listener whenever a file starts or finishes loading, returns a
+  // function that unsubscribes it again
+  subscribe = (listener: AssetProgressListener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Mesh of the OBJ, glTF, GLB, STL or PLY file at path, relative to the
+  // page, with color where it has no material or vertex colors. object is the
+  // index in scene.objects of the object that needs it.
+  loadModel = async (
+    path: string,
+    color: Vec3,
+    object: number,
+  ): Promise<ModelMesh> => {
+    try {
+      const build = await this.getModel(path);
+      return build(color);
+    } catch (e) {
+      if (e instanceof MissingFileError) {
+        throw new AssetError(AssetErrorKind.Missing, e.path, object, e.message);
+      }
+      if (e instanceof ModelParseError) {
+        throw new AssetError(
+          AssetErrorKind.Unparsable,
+          e.file,
+          object,
+          e.message,
+        );
+      }
+      // Like a RangeError reading past the end of a truncated binary file, or
+      // a DOMException decoding a malformed data URI
+      throw new AssetError(
+        AssetErrorKind.Unparsable,
+        path,
+        object,
+        `${path}: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+  };
+
+  private getModel(path: string) {
+    let model = this.models.get(path);
+    if (!model) {
+      model = this.parseModel(path);
+      this.models.set(path, model);
+    }
+    return model;
+  }
+
+  private async parseModel(path: string): Promise<MeshBuilder> {
+    const data = await this.fetchFile(path);
+
+    switch (getModelFormat(path, data)) {
+      case ModelFormat.Obj:
+        return this.parseObj(path, decode(data));
+      case ModelFormat.Gltf:
+        return this.parseGltf(path, parseGltf(decode(data), path), null);
+      case ModelFormat.Glb: {
+        const { document, bin } = parseGlb(data, path);
+        return this.parseGltf(path, document, bin);
+      }
+      case ModelFormat.Stl: {
+        const file = parseStl(data, path);
+        return (color) => buildStlMesh(file, color);
+      }
+      case ModelFormat.Ply: {
+        const file = parsePly(data, path);
+        return (color) => buildPlyMesh(file, color);
+      }
+    }
+  }
+
+  private async parseObj(path: string, content: string): Promise<MeshBuilder> {
+    const file = parseObj(content, path);
+
+    const libraryPaths = file.materialLibraries.map((library) =>
+      resolvePath(path, library),
+    );
+    const libraries = await Promise.all(
+      libraryPaths.map((libraryPath) => this.fetchFile(libraryPath)),
+    );
+
+    // In order, so later libraries override earlier ones
+    const materials = new Map<string, ObjMaterial>();
+    libraries.forEach((content, i) =>
+      parseMtl(decode(content), libraryPaths[i], materials),
+    );
+    return (color) => buildObjMesh(file, materials, color, path);
+  }
+
+  // Once the buffers in separate files are loaded too
+  private async parseGltf(
+    path: string,
+    document: GltfDocument,
+    bin: ArrayBuffer | null,
+  ): Promise<MeshBuilder> {
+    const external = await Promise.all(
+      getExternalBufferUris(document).map((uri) =>
+        uri === null ? null : this.fetchFile(resolvePath(path, uri)),
+      ),
+    );
+    const buffers = getGltfBuffers(document, external, bin, path);
+    return (color) => buildGltfMesh(document, buffers, color, path);
+  }
+
+  private fetchFile(path: string) {
+    let file = this.files.get(path);
+    if (file) return file;
+
+    this.total++;
+    this.emit(path);
+    file = fetch(path)
+      .then(
+        (res) => {
+          if (!res.ok) {
+            throw new MissingFileError(path, `${res.status} ${res.statusText}`);
+          }
+          return res.arrayBuffer();
+        },
+        (e) => {
+          throw new MissingFileError(path, String(e));
+        },
+      )
+      .finally(() => {
+        this.loaded++;
+        this.emit(path);
+      });
+    this.files.set(path, file);
+    return file;
+  }
+
+  private emit(path: string) {
+    const progress = { path, loaded: this.loaded, total: this.total };
+    for (const listener of this.listeners) listener(progress);
+  }
+}
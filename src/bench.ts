@@ -0,0 +1,83 @@
+// Steps hanging cloths of growing resolution and reports how long one 60Hz
+// frame takes, run with `npm run bench`
+import { Vec3, Vec2 } from "gl-matrix";
+import Scene, { Cloth, ObjectKind, getClothEdge } from "./scene";
+import Modeler from "./modeler";
+
+const frameBudget = 1000 / 60;
+const warmupFrames = 5;
+const frames = 30;
+const resolutions = [10, 20, 30, 50, 70, 100, 150, 200];
+
+const measure = async (divisions: number, selfCollision: boolean) => {
+  const cloth: Cloth = {
+    kind: ObjectKind.Cloth,
+    length: 3,
+    width: 3,
+    divisions: new Vec2(divisions),
+    selfCollision,
+
+    color: new Vec3(1, 1, 1),
+    p: new Vec3(0, 3, 0),
+    v: new Vec3(0, 0, 0),
+    a: new Vec3(0, 0, 0),
+  };
+  cloth.pins = getClothEdge(cloth, "top").map((vertex) => ({ vertex }));
+
+  const scene = new Scene([
+    {
+      kind: ObjectKind.Sphere,
+      radius: 1,
+      hPrec: 8,
+      vPrec: 8,
+
+      color: new Vec3(1, 1, 1),
+      p: new Vec3(0, 1, 0.5),
+      v: new Vec3(0, 0, 0),
+      a: new Vec3(0, 0, 0),
+    },
+    cloth,
+  ]);
+  await scene.getVertices();
+
+  const modeler = new Modeler();
+  for (let i = 0; i < warmupFrames; i++) await modeler.step(1 / 60, scene);
+
+  const start = performance.now();
+  for (let i = 0; i < frames; i++) await modeler.step(1 / 60, scene);
+  return (performance.now() - start) / frames;
+};
+
+const main = async () => {
+  console.log("particles  self collision  ms/frame  60Hz");
+
+  for (const selfCollision of [false, true]) {
+    let largest = 0;
+
+    for (const divisions of resolutions) {
+      const particles = (divisions + 1) ** 2;
+      const ms = await measure(divisions, selfCollision);
+      const fits = ms <= frameBudget;
+      if (fits) largest = particles;
+
+      console.log(
+        [
+          String(particles).padStart(9),
+          String(selfCollision).padStart(14),
+          ms.toFixed(2).padStart(8),
+          fits ? "  yes" : "   no",
+        ].join("  "),
+      );
+
+      // Everything bigger is over budget too
+      if (ms > 2 * frameBudget) break;
+    }
+
+    console.log(
+      `Largest cloth at 60Hz ${selfCollision ? "with" : "without"} self ` +
+        `collision: ${largest} particles\n`,
+    );
+  }
+};
+
+main();
@@ -0,0 +1,110 @@
+import { Vec3, Quat } from "gl-matrix";
+import Scene, { isParticleObject } from "./scene";
+
+interface RenderState {
+  transforms: { p: Vec3; rotation: Quat }[];
+  vertexData: (Float32Array | null)[];
+}
+
+const captureRenderState = (scene: Scene): RenderState => ({
+  transforms: scene.objects.map((obj) => ({
+    p: Vec3.clone(obj.p),
+    rotation: obj.rotation ? Quat.clone(obj.rotation) : Quat.create(),
+  })),
+  vertexData: scene.objects.map((obj) =>
+    isParticleObject(obj) && obj.data ? obj.data.vertexData.slice() : null,
+  ),
+});
+
+const interpolateRenderState = (
+  scene: Scene,
+  previous: RenderState,
+  current: RenderState,
+  alpha: number,
+) => {
+  scene.objects.forEach((obj, i) => {
+    const from = previous.transforms[i];
+    const to = current.transforms[i];
+    if (!from || !to) return;
+
+    obj.render ??= { p: new Vec3(), rotation: Quat.create() };
+    Vec3.lerp(obj.render.p, from.p, to.p, alpha);
+    Quat.slerp(obj.render.rotation, from.rotation, to.rotation, alpha);
+
+    const fromData = previous.vertexData[i];
+    const toData = current.vertexData[i];
+    const vertexData = obj.data?.vertexData;
+    if (
+      !fromData ||
+      !toData ||
+      !vertexData ||
+      fromData.length !== vertexData.length ||
+      toData.length !== vertexData.length
+    ) {
+      return;
+    }
+
+    // Positions and normals, colors are left alone
+    for (let v = 0; v < vertexData.length; v += 9) {
+      for (let c = v; c < v + 6; c++) {
+        vertexData[c] = fromData[c] + (toData[c] - fromData[c]) * alpha;
+      }
+    }
+  });
+};
+
+// Advances the simulation in fixed steps no matter the frame rate, so the same
+// scene and inputs always produce the same results. Rendering lags one step
+// behind and is blended between the last two steps by alpha.
+export default class SimulationClock {
+  fixedDt: number;
+  maxSteps: number;
+  alpha = 0;
+
+  private accumulator = 0;
+  private lastTimestamp: number | null = null;
+  private previous: RenderState | null = null;
+  private current: RenderState | null = null;
+
+  constructor(fixedDt = 1 / 60, maxSteps = 4) {
+    this.fixedDt = fixedDt;
+    this.maxSteps = maxSteps;
+  }
+
+  tick = (timestamp: number, scene: Scene, step: (dt: number) => void) => {
+    this.lastTimestamp ??= timestamp;
+    this.accumulator += (timestamp - this.lastTimestamp) / 1e3;
+    this.lastTimestamp = timestamp;
+
+    let steps = Math.floor(this.accumulator / this.fixedDt);
+    if (steps > this.maxSteps) {
+      // Drop time we can't catch up on instead of falling further behind
+      steps = this.maxSteps;
+      this.accumulator = steps * this.fixedDt;
+    }
+
+    this.current ??= captureRenderState(scene);
+    for (let i = 0; i < steps; i++) {
+      step(this.fixedDt);
+      this.previous = this.current;
+      this.current = captureRenderState(scene);
+    }
+
+    this.accumulator -= steps * this.fixedDt;
+    this.alpha = this.accumulator / this.fixedDt;
+
+    if (this.previous) {
+      interpolateRenderState(scene, this.previous, this.current, this.alpha);
+    }
+  };
+
+  // Forget timing and render history, e.g. after the tab was hidden or the
+  // scene was replaced
+  reset = () => {
+    this.accumulator = 0;
+    this.lastTimestamp = null;
+    this.previous = null;
+    this.current = null;
+    this.alpha = 0;
+  };
+}
@@ -0,0 +1,112 @@
+// Particles and distance constraints of a cloth in flat buffers. Vertex i is
+// at positions[3 * i] to positions[3 * i + 2], constraint i joins vertices
+// constraintVertices[2 * i] and constraintVertices[2 * i + 1]. Buffers keep
+// spare capacity so tearing doesn't reallocate on every new vertex.
+export interface ClothState {
+  vertexCount: number;
+  positions: Float32Array;
+  prevPositions: Float32Array;
+  // Where each vertex started out, torn copies share it
+  restPositions: Float32Array;
+  // External acceleration other than gravity
+  accelerations: Float32Array;
+  invMasses: Float32Array;
+
+  constraintCount: number;
+  constraintVertices: Uint32Array;
+  // ConstraintKind of each constraint
+  constraintKinds: Uint8Array;
+  restLengths: Float32Array;
+}
+
+type TypedArray = Float32Array | Uint32Array | Uint8Array;
+
+const grow = <T extends TypedArray>(array: T, length: number): T => {
+  if (length <= array.length) return array;
+
+  const Constructor = array.constructor as new (length: number) => T;
+  const grown = new Constructor(Math.max(length, 2 * array.length));
+  grown.set(array);
+  return grown;
+};
+
+export const createClothState = (
+  vertexCapacity: number,
+  constraintCapacity: number,
+): ClothState => ({
+  vertexCount: 0,
+  positions: new Float32Array(3 * vertexCapacity),
+  prevPositions: new Float32Array(3 * vertexCapacity),
+  restPositions: new Float32Array(3 * vertexCapacity),
+  accelerations: new Float32Array(3 * vertexCapacity),
+  invMasses: new Float32Array(vertexCapacity),
+
+  constraintCount: 0,
+  constraintVertices: new Uint32Array(2 * constraintCapacity),
+  constraintKinds: new Uint8Array(constraintCapacity),
+  restLengths: new Float32Array(constraintCapacity),
+});
+
+const reserveVertex = (state: ClothState) => {
+  const count = state.vertexCount + 1;
+  state.positions = grow(state.positions, 3 * count);
+  state.prevPositions = grow(state.prevPositions, 3 * count);
+  state.restPositions = grow(state.restPositions, 3 * count);
+  state.accelerations = grow(state.accelerations, 3 * count);
+  state.invMasses = grow(state.invMasses, count);
+  return state.vertexCount++;
+};
+
+// Adds a vertex at rest at x, y, z and returns its index
+export const addClothVertex = (
+  state: ClothState,
+  x: number,
+  y: number,
+  z: number,
+) => {
+  const i = reserveVertex(state);
+  state.positions.set([x, y, z], 3 * i);
+  state.prevPositions.set([x, y, z], 3 * i);
+  state.restPositions.set([x, y, z], 3 * i);
+  state.accelerations.fill(0, 3 * i, 3 * i + 3);
+  state.invMasses[i] = 1;
+  return i;
+};
+
+// Adds a copy of vertex v, including its velocity, and returns its index
+export const copyClothVertex = (state: ClothState, v: number) => {
+  const i = reserveVertex(state);
+  state.positions.copyWithin(3 * i, 3 * v, 3 * v + 3);
+  state.prevPositions.copyWithin(3 * i, 3 * v, 3 * v + 3);
+  state.restPositions.copyWithin(3 * i, 3 * v, 3 * v + 3);
+  state.accelerations.copyWithin(3 * i, 3 * v, 3 * v + 3);
+  state.invMasses[i] = state.invMasses[v];
+  return i;
+};
+
+// restLength defaults to the current distance between a and b
+export const addClothConstraint = (
+  state: ClothState,
+  kind: number,
+  a: number,
+  b: number,
+  restLength?: number,
+) => {
+  const i = state.constraintCount++;
+  state.constraintVertices = grow(state.constraintVertices, 2 * (i + 1));
+  state.constraintKinds = grow(state.constraintKinds, i + 1);
+  state.restLengths = grow(state.restLengths, i + 1);
+
+  const p = state.positions;
+  state.constraintVertices[2 * i] = a;
+  state.constraintVertices[2 * i + 1] = b;
+  state.constraintKinds[i] = kind;
+  state.restLengths[i] =
+    restLength ??
+    Math.hypot(
+      p[3 * a] - p[3 * b],
+      p[3 * a + 1] - p[3 * b + 1],
+      p[3 * a + 2] - p[3 * b + 2],
+    );
+  return i;
+};
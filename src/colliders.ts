@@ -0,0 +1,480 @@
+import { Vec3, Quat } from "gl-matrix";
+import Scene, { Box, Capsule, ObjectKind, SceneObject, Sphere } from "./scene";
+
+export enum ColliderKind {
+  Sphere,
+  Box,
+  Capsule,
+  Plane,
+}
+
+interface CommonColliderProps {
+  object: SceneObject;
+}
+
+export interface SphereCollider extends CommonColliderProps {
+  kind: ColliderKind.Sphere;
+  center: Vec3;
+  radius: number;
+}
+
+export interface BoxCollider extends CommonColliderProps {
+  kind: ColliderKind.Box;
+  center: Vec3;
+  rotation: Quat;
+  inverseRotation: Quat;
+  halfExtents: Vec3;
+}
+
+export interface CapsuleCollider extends CommonColliderProps {
+  kind: ColliderKind.Capsule;
+  a: Vec3;
+  b: Vec3;
+  radius: number;
+}
+
+// Solid half-space of every point x with dot(normal, x) <= offset
+export interface PlaneCollider extends CommonColliderProps {
+  kind: ColliderKind.Plane;
+  normal: Vec3;
+  offset: number;
+}
+
+export type Collider =
+  SphereCollider | BoxCollider | CapsuleCollider | PlaneCollider;
+
+// normal points out of the collider, moving by normal * depth resolves it
+export interface Contact {
+  normal: Vec3;
+  depth: number;
+}
+
+// A point moving from start to end first touches the collider a fraction t of
+// the way, normal points out of the collider there
+export interface SweepHit {
+  t: number;
+  normal: Vec3;
+}
+
+const up = new Vec3(0, 1, 0);
+
+const identity = Quat.create();
+const capsuleAxis = new Vec3();
+
+// Moves collider to where its object is now, without allocating
+const updateCollider = (collider: Collider) => {
+  const obj = collider.object;
+  const rotation = obj.rotation ?? identity;
+
+  switch (collider.kind) {
+    case ColliderKind.Sphere:
+      collider.center.copy(obj.p);
+      collider.radius = (obj as Sphere).radius;
+      break;
+    case ColliderKind.Box: {
+      const box = obj as Box;
+      collider.center.copy(obj.p);
+      collider.rotation.copy(rotation);
+      Quat.conjugate(collider.inverseRotation, rotation);
+      collider.halfExtents.set([box.length / 2, box.height / 2, box.width / 2]);
+      break;
+    }
+    case ColliderKind.Capsule: {
+      const capsule = obj as Capsule;
+      capsuleAxis.set([0, capsule.height / 2, 0]);
+      Vec3.transformQuat(capsuleAxis, capsuleAxis, rotation);
+      Vec3.add(collider.a, obj.p, capsuleAxis);
+      Vec3.subtract(collider.b, obj.p, capsuleAxis);
+      collider.radius = capsule.radius;
+      break;
+    }
+    case ColliderKind.Plane:
+      Vec3.transformQuat(collider.normal, up, rotation);
+      collider.normal.normalize();
+      collider.offset = collider.normal.dot(obj.p);
+      break;
+  }
+  return collider;
+};
+
+const createCollider = (obj: SceneObject): Collider | null => {
+  if (obj.collidable === false) return null;
+
+  switch (obj.kind) {
+    case ObjectKind.Sphere:
+      return {
+        kind: ColliderKind.Sphere,
+        object: obj,
+        center: new Vec3(),
+        radius: 0,
+      };
+    case ObjectKind.Box:
+      return {
+        kind: ColliderKind.Box,
+        object: obj,
+        center: new Vec3(),
+        rotation: Quat.create(),
+        inverseRotation: Quat.create(),
+        halfExtents: new Vec3(),
+      };
+    case ObjectKind.Capsule:
+      return {
+        kind: ColliderKind.Capsule,
+        object: obj,
+        a: new Vec3(),
+        b: new Vec3(),
+        radius: 0,
+      };
+    case ObjectKind.Plane:
+      return {
+        kind: ColliderKind.Plane,
+        object: obj,
+        normal: new Vec3(),
+        offset: 0,
+      };
+    default:
+      return null;
+  }
+};
+
+export const getCollider = (obj: SceneObject): Collider | null => {
+  const collider = createCollider(obj);
+  return collider && updateCollider(collider);
+};
+
+export const getColliders = (scene: Scene): Collider[] =>
+  scene.objects
+    .map(getCollider)
+    .filter((collider): collider is Collider => collider !== null);
+
+const hasCollider = (obj: SceneObject) =>
+  obj.collidable !== false &&
+  (obj.kind === ObjectKind.Sphere ||
+    obj.kind === ObjectKind.Box ||
+    obj.kind === ObjectKind.Capsule ||
+    obj.kind === ObjectKind.Plane);
+
+// Moves colliders, made by getColliders, to where their objects are now. Only
+// allocates new ones when the scene's colliding objects changed.
+export const updateColliders = (scene: Scene, colliders: Collider[]) => {
+  let count = 0;
+  for (const obj of scene.objects) {
+    if (!hasCollider(obj)) continue;
+    if (colliders[count]?.object !== obj) return getColliders(scene);
+    count++;
+  }
+  if (count !== colliders.length) return getColliders(scene);
+
+  for (const collider of colliders) updateCollider(collider);
+  return colliders;
+};
+
+const local = new Vec3();
+const closest = new Vec3();
+
+const collideSphere = (
+  center: Vec3,
+  radius: number,
+  point: Vec3,
+  margin: number,
+  out: Contact,
+): Contact | null => {
+  const delta = Vec3.subtract(out.normal, point, center) as Vec3;
+  const dist = delta.magnitude;
+  if (dist - radius > margin) return null;
+
+  if (dist > 0) delta.scale(1 / dist);
+  else delta.copy(up);
+  out.depth = radius + margin - dist;
+  return out;
+};
+
+const collideBox = (
+  box: BoxCollider,
+  point: Vec3,
+  margin: number,
+  out: Contact,
+): Contact | null => {
+  Vec3.subtract(local, point, box.center);
+  Vec3.transformQuat(local, local, box.inverseRotation);
+
+  const he = box.halfExtents;
+  closest.x = Math.min(Math.max(local.x, -he.x), he.x);
+  closest.y = Math.min(Math.max(local.y, -he.y), he.y);
+  closest.z = Math.min(Math.max(local.z, -he.z), he.z);
+
+  const outside = Vec3.subtract(out.normal, local, closest) as Vec3;
+  const dist = outside.magnitude;
+
+  if (dist > 0) {
+    if (dist > margin) return null;
+    outside.scale(1 / dist);
+    Vec3.transformQuat(out.normal, out.normal, box.rotation);
+    out.depth = margin - dist;
+    return out;
+  }
+
+  // Inside, push out through the nearest face
+  let axis = 0;
+  let faceDist = Infinity;
+  for (let i = 0; i < 3; i++) {
+    const d = he[i] - Math.abs(local[i]);
+    if (d < faceDist) {
+      faceDist = d;
+      axis = i;
+    }
+  }
+
+  const normal = out.normal;
+  normal.x = normal.y = normal.z = 0;
+  normal[axis] = local[axis] < 0 ? -1 : 1;
+  Vec3.transformQuat(normal, normal, box.rotation);
+  out.depth = margin + faceDist;
+  return out;
+};
+
+const collideCapsule = (
+  capsule: CapsuleCollider,
+  point: Vec3,
+  margin: number,
+  out: Contact,
+): Contact | null => {
+  const ab = Vec3.subtract(local, capsule.b, capsule.a) as Vec3;
+  const ap = Vec3.subtract(closest, point, capsule.a) as Vec3;
+  const abLengthSq = ab.squaredMagnitude;
+  const t =
+    abLengthSq > 0 ? Math.min(Math.max(ap.dot(ab) / abLengthSq, 0), 1) : 0;
+  Vec3.scaleAndAdd(closest, capsule.a, ab, t);
+
+  return collideSphere(closest, capsule.radius, point, margin, out);
+};
+
+const collidePlane = (
+  plane: PlaneCollider,
+  point: Vec3,
+  margin: number,
+  out: Contact,
+): Contact | null => {
+  const dist = plane.normal.dot(point) - plane.offset;
+  if (dist > margin) return null;
+
+  out.normal.copy(plane.normal);
+  out.depth = margin - dist;
+  return out;
+};
+
+// Contact for a point that should stay at least margin away from the collider.
+// Hot loops can pass out to fill instead of allocating a new contact.
+export const collidePoint = (
+  collider: Collider,
+  point: Vec3,
+  margin: number,
+  out: Contact = { normal: new Vec3(), depth: 0 },
+): Contact | null => {
+  switch (collider.kind) {
+    case ColliderKind.Sphere:
+      return collideSphere(
+        collider.center,
+        collider.radius,
+        point,
+        margin,
+        out,
+      );
+    case ColliderKind.Box:
+      return collideBox(collider, point, margin, out);
+    case ColliderKind.Capsule:
+      return collideCapsule(collider, point, margin, out);
+    case ColliderKind.Plane:
+      return collidePlane(collider, point, margin, out);
+  }
+};
+
+const sweepStart = new Vec3();
+const sweepEnd = new Vec3();
+const sweepDelta = new Vec3();
+const hitNormal = new Vec3();
+
+// radius already includes the margin
+const sweepSphere = (
+  center: Vec3,
+  radius: number,
+  start: Vec3,
+  end: Vec3,
+  out: SweepHit,
+): SweepHit | null => {
+  const m = Vec3.subtract(sweepStart, start, center) as Vec3;
+  const d = Vec3.subtract(sweepDelta, end, start) as Vec3;
+
+  const a = d.squaredMagnitude;
+  const b = m.dot(d);
+  const c = m.squaredMagnitude - radius * radius;
+  // Starting inside or moving away
+  if (a === 0 || c <= 0 || b >= 0) return null;
+
+  const discriminant = b * b - a * c;
+  if (discriminant < 0) return null;
+  const t = (-b - Math.sqrt(discriminant)) / a;
+  if (t > 1) return null;
+
+  out.t = t;
+  out.normal
+    .copy(m)
+    .scaleAndAdd(d, t)
+    .scale(1 / radius);
+  return out;
+};
+
+// Slab test against the box grown by margin, so corners are sharp instead of
+// rounded
+const sweepBox = (
+  box: BoxCollider,
+  start: Vec3,
+  end: Vec3,
+  margin: number,
+  out: SweepHit,
+): SweepHit | null => {
+  const s = Vec3.subtract(sweepStart, start, box.center) as Vec3;
+  Vec3.transformQuat(s, s, box.inverseRotation);
+  const e = Vec3.subtract(sweepEnd, end, box.center) as Vec3;
+  Vec3.transformQuat(e, e, box.inverseRotation);
+  const d = Vec3.subtract(sweepDelta, e, s) as Vec3;
+
+  let tEnter = -Infinity;
+  let tExit = Infinity;
+  let axis = -1;
+  let sign = 0;
+
+  for (let i = 0; i < 3; i++) {
+    const h = box.halfExtents[i] + margin;
+    if (d[i] === 0) {
+      if (Math.abs(s[i]) > h) return null;
+      continue;
+    }
+
+    const t1 = (-h - s[i]) / d[i];
+    const t2 = (h - s[i]) / d[i];
+    const near = Math.min(t1, t2);
+    if (near > tEnter) {
+      tEnter = near;
+      axis = i;
+      sign = d[i] > 0 ? -1 : 1;
+    }
+    tExit = Math.min(tExit, Math.max(t1, t2));
+  }
+
+  // Starting inside is left to collidePoint
+  if (axis === -1 || tEnter < 0 || tEnter > 1 || tEnter > tExit) return null;
+
+  out.t = tEnter;
+  out.normal.x = out.normal.y = out.normal.z = 0;
+  out.normal[axis] = sign;
+  Vec3.transformQuat(out.normal, out.normal, box.rotation);
+  return out;
+};
+
+const sweepCapsule = (
+  capsule: CapsuleCollider,
+  start: Vec3,
+  end: Vec3,
+  margin: number,
+  out: SweepHit,
+): SweepHit | null => {
+  const radius = capsule.radius + margin;
+  const ba = Vec3.subtract(local, capsule.b, capsule.a) as Vec3;
+  const oa = Vec3.subtract(closest, start, capsule.a) as Vec3;
+  const d = Vec3.subtract(sweepEnd, end, start) as Vec3;
+
+  const baba = ba.squaredMagnitude;
+  const bard = ba.dot(d);
+  const baoa = ba.dot(oa);
+
+  // Starting inside is left to collidePoint
+  const startY = baba > 0 ? Math.min(Math.max(baoa / baba, 0), 1) : 0;
+  const startDistSq =
+    oa.squaredMagnitude - 2 * startY * baoa + startY * startY * baba;
+  if (startDistSq <= radius * radius) return null;
+
+  let t = Infinity;
+
+  // Cylinder body, only when starting outside the infinite cylinder
+  const a = baba * d.squaredMagnitude - bard * bard;
+  const b = baba * d.dot(oa) - baoa * bard;
+  const c = baba * oa.squaredMagnitude - baoa * baoa - radius * radius * baba;
+  if (a > 0 && c > 0) {
+    const discriminant = b * b - a * c;
+    if (discriminant >= 0) {
+      const bodyT = (-b - Math.sqrt(discriminant)) / a;
+      const y = baoa + bodyT * bard;
+      if (bodyT >= 0 && bodyT <= 1 && y > 0 && y < baba) {
+        t = bodyT;
+        // Offset from the axis at the hit
+        hitNormal
+          .copy(oa)
+          .scaleAndAdd(d, bodyT)
+          .scaleAndAdd(ba, -y / baba)
+          .scale(1 / radius);
+      }
+    }
+  }
+
+  // End caps
+  const capA = sweepSphere(capsule.a, radius, start, end, out);
+  if (capA && capA.t < t) {
+    t = capA.t;
+    hitNormal.copy(capA.normal);
+  }
+  const capB = sweepSphere(capsule.b, radius, start, end, out);
+  if (capB && capB.t < t) {
+    t = capB.t;
+    hitNormal.copy(capB.normal);
+  }
+
+  if (t === Infinity) return null;
+  out.t = t;
+  out.normal.copy(hitNormal);
+  return out;
+};
+
+const sweepPlane = (
+  plane: PlaneCollider,
+  start: Vec3,
+  end: Vec3,
+  margin: number,
+  out: SweepHit,
+): SweepHit | null => {
+  const startDist = plane.normal.dot(start) - plane.offset;
+  const endDist = plane.normal.dot(end) - plane.offset;
+  if (startDist <= margin || endDist >= margin) return null;
+
+  out.t = (startDist - margin) / (startDist - endDist);
+  out.normal.copy(plane.normal);
+  return out;
+};
+
+// First time a point moving in a straight line from start to end comes within
+// margin of the collider. Points already within margin at start are left to
+// collidePoint. The collider is taken to hold still meanwhile.
+export const sweepPoint = (
+  collider: Collider,
+  start: Vec3,
+  end: Vec3,
+  margin: number,
+  out: SweepHit = { t: 0, normal: new Vec3() },
+): SweepHit | null => {
+  switch (collider.kind) {
+    case ColliderKind.Sphere:
+      return sweepSphere(
+        collider.center,
+        collider.radius + margin,
+        start,
+        end,
+        out,
+      );
+    case ColliderKind.Box:
+      return sweepBox(collider, start, end, margin, out);
+    case ColliderKind.Capsule:
+      return sweepCapsule(collider, start, end, margin, out);
+    case ColliderKind.Plane:
+      return sweepPlane(collider, start, end, margin, out);
+  }
+};
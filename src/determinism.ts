@@ -0,0 +1,78 @@
+// Steps the demo scene through the simulation clock at different frame rates
+// and checks they all end up in exactly the same state, run with `npm test`
+import { ObjectKind, isParticleObject } from "./scene";
+import Modeler from "./modeler";
+import SimulationClock from "./clock";
+import { loadSceneFile } from "./scenefile";
+
+const steps = 120;
+
+// Milliseconds between frames, by frame number
+const frameRates: Record<string, (frame: number) => number> = {
+  "30Hz": () => 1000 / 30,
+  "60Hz": () => 1000 / 60,
+  "144Hz": () => 1000 / 144,
+  // Anything from 4ms to 40ms, the same on every run
+  jittery: (frame) => 4 + ((frame * 7919) % 37),
+};
+
+// Positions of every particle, rigid body and mesh after the given number of
+// steps at a frame rate
+const simulate = async (frameTime: (frame: number) => number) => {
+  const { scene, physics } = await loadSceneFile(
+    new URL("../public/scenes/demo.json", import.meta.url).href,
+  );
+  // Models are fetched relative to the page, there's none here
+  scene.objects = scene.objects.filter((obj) => obj.kind !== ObjectKind.Model);
+  await scene.getVertices();
+
+  const modeler = new Modeler();
+  modeler.substeps = physics.substeps;
+  modeler.gravity.set(physics.gravity);
+  const clock = new SimulationClock(physics.fixedDt);
+
+  let stepped = 0;
+  let state: number[] | null = null;
+  let timestamp = 0;
+  for (let frame = 0; !state; frame++) {
+    clock.tick(timestamp, scene, (dt) => {
+      if (state) return;
+      modeler.step(dt, scene);
+      if (++stepped < steps) return;
+
+      state = [];
+      for (const obj of scene.objects) {
+        state.push(...obj.p, ...(obj.rotation ?? []));
+        if (isParticleObject(obj) && obj.state) {
+          const { vertexCount, positions } = obj.state;
+          state.push(...positions.subarray(0, 3 * vertexCount));
+        }
+      }
+    });
+    timestamp += frameTime(frame);
+  }
+  return state as number[];
+};
+
+const main = async () => {
+  console.log(`frame rate  state after ${steps} steps`);
+
+  let reference: number[] | null = null;
+  let failed = false;
+  for (const [name, frameTime] of Object.entries(frameRates)) {
+    const state = await simulate(frameTime);
+    reference ??= state;
+
+    const first = state.findIndex((x, i) => !Object.is(x, reference![i]));
+    const same = first === -1 && state.length === reference.length;
+    if (!same) failed = true;
+    console.log(
+      name.padStart(10) +
+        (same ? "  identical" : `  differs at value ${first}`),
+    );
+  }
+
+  if (failed) throw new Error("The frame rate changed the simulation");
+};
+
+main();
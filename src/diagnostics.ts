@@ -0,0 +1,138 @@
+import { Vec3 } from "gl-matrix";
+import Scene, {
+  ConstraintKind,
+  ParticleObject,
+  getCompliances,
+  isParticleObject,
+} from "./scene";
+import { getKineticEnergy, isRigidBody } from "./rigidbodies";
+
+// Milliseconds spent in each part of a step, over all substeps and cloths
+export interface PhaseTimes {
+  stepRigidBodies: number;
+  updatePositions: number;
+  solveConstraints: number;
+  handleSelfCollisions: number;
+  handleCollisions: number;
+  stepParticles: number;
+  updateNormals: number;
+}
+
+export type Phase = keyof PhaseTimes;
+
+export interface StepDiagnostics {
+  // Modeler time at the end of the step
+  time: number;
+  // J, of cloth particles and rigid bodies
+  kineticEnergy: number;
+  // J, gravitational relative to y = 0 plus elasticEnergy
+  potentialEnergy: number;
+  // J, stored in compliant cloth constraints away from their rest length
+  elasticEnergy: number;
+  // Of cloth and rope stretch constraints, (length - rest length) / rest
+  // length
+  maxStrain: number;
+  averageStrain: number;
+  // Cloth particle and rigid body contacts in the last substep
+  contacts: number;
+  // Deepest of those contacts below the collider's surface, m
+  maxPenetration: number;
+  phaseTimes: PhaseTimes;
+}
+
+export type DiagnosticsListener = (diagnostics: StepDiagnostics) => void;
+
+export const createPhaseTimes = (): PhaseTimes => ({
+  stepRigidBodies: 0,
+  updatePositions: 0,
+  solveConstraints: 0,
+  handleSelfCollisions: 0,
+  handleCollisions: 0,
+  stepParticles: 0,
+  updateNormals: 0,
+});
+
+// Adds the energy and strain of cloth or a rope, whose particles moved over
+// the last dt, to out. Pinned and grabbed particles don't count, their mass
+// is infinite.
+const measureParticles = (
+  cloth: ParticleObject,
+  g: Vec3,
+  dt: number,
+  out: StepDiagnostics,
+) => {
+  const state = cloth.state!;
+  const { positions: p, prevPositions: lastP, invMasses } = state;
+
+  for (let i = 0; i < state.vertexCount; i++) {
+    if (invMasses[i] === 0) continue;
+    const mass = 1 / invMasses[i];
+
+    let speedSq = 0;
+    let height = 0;
+    for (let axis = 0; axis < 3; axis++) {
+      const k = 3 * i + axis;
+      const v = (p[k] - lastP[k]) / dt;
+      speedSq += v * v;
+      height -= g[axis] * (p[k] + cloth.p[axis]);
+    }
+    out.kineticEnergy += 0.5 * mass * speedSq;
+    out.potentialEnergy += mass * height;
+  }
+
+  const compliances = getCompliances(cloth);
+
+  let strainSum = 0;
+  let strainCount = 0;
+  for (let i = 0; i < state.constraintCount; i++) {
+    const a = 3 * state.constraintVertices[2 * i];
+    const b = 3 * state.constraintVertices[2 * i + 1];
+    const kind = state.constraintKinds[i];
+    const restLength = state.restLengths[i];
+
+    const length = Math.hypot(
+      p[a] - p[b],
+      p[a + 1] - p[b + 1],
+      p[a + 2] - p[b + 2],
+    );
+    const c = length - restLength;
+    if (compliances[kind] > 0) {
+      const energy = (0.5 * c * c) / compliances[kind];
+      out.potentialEnergy += energy;
+      out.elasticEnergy += energy;
+    }
+
+    if (kind !== ConstraintKind.Stretch || restLength === 0) continue;
+    const strain = Math.abs(c) / restLength;
+    out.maxStrain = Math.max(out.maxStrain, strain);
+    strainSum += strain;
+    strainCount++;
+  }
+
+  return { strainSum, strainCount };
+};
+
+// Fills in the energies and strains of out from the scene as it is now, dt is
+// the last substep's
+export const measureScene = (
+  scene: Scene,
+  g: Vec3,
+  dt: number,
+  out: StepDiagnostics,
+) => {
+  let strainSum = 0;
+  let strainCount = 0;
+
+  for (const obj of scene.objects) {
+    if (isParticleObject(obj) && obj.state) {
+      const strain = measureParticles(obj, g, dt, out);
+      strainSum += strain.strainSum;
+      strainCount += strain.strainCount;
+    } else if (isRigidBody(obj)) {
+      out.kineticEnergy += getKineticEnergy(obj);
+      out.potentialEnergy -= obj.mass! * Vec3.dot(g, obj.p);
+    }
+  }
+
+  out.averageStrain = strainCount > 0 ? strainSum / strainCount : 0;
+};
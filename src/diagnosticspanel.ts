@@ -0,0 +1,135 @@
+import { Phase, StepDiagnostics } from "./diagnostics";
+
+interface Series {
+  label: string;
+  color: string;
+  value: (diagnostics: StepDiagnostics) => number;
+}
+
+interface Chart {
+  title: string;
+  series: Series[];
+  canvas: HTMLCanvasElement;
+}
+
+const colors = ["#f94", "#4af", "#7d5", "#e5e", "#fd4", "#4dd", "#aaa"];
+
+const phases: Phase[] = [
+  "stepRigidBodies",
+  "updatePositions",
+  "solveConstraints",
+  "handleSelfCollisions",
+  "handleCollisions",
+  "stepParticles",
+  "updateNormals",
+];
+
+const chartDefinitions: Omit<Chart, "canvas">[] = [
+  {
+    title: "Energy (J)",
+    series: [
+      { label: "kinetic", color: colors[0], value: (d) => d.kineticEnergy },
+      { label: "potential", color: colors[1], value: (d) => d.potentialEnergy },
+      { label: "elastic", color: colors[2], value: (d) => d.elasticEnergy },
+    ],
+  },
+  {
+    title: "Strain",
+    series: [
+      { label: "max", color: colors[0], value: (d) => d.maxStrain },
+      { label: "average", color: colors[1], value: (d) => d.averageStrain },
+    ],
+  },
+  {
+    title: "Contacts",
+    series: [{ label: "contacts", color: colors[2], value: (d) => d.contacts }],
+  },
+  {
+    title: "Penetration (m)",
+    series: [
+      { label: "max", color: colors[3], value: (d) => d.maxPenetration },
+    ],
+  },
+  {
+    title: "Phase times (ms)",
+    series: phases.map((phase, i) => ({
+      label: phase,
+      color: colors[i],
+      value: (d) => d.phaseTimes[phase],
+    })),
+  },
+];
+
+// Line charts of the latest history steps of diagnostics
+export default class DiagnosticsPanel {
+  history: number;
+
+  private charts: Chart[];
+  private steps: StepDiagnostics[] = [];
+
+  constructor(container: HTMLElement, history = 300) {
+    this.history = history;
+
+    const el = document.createElement("div");
+    el.className = "diagnostics";
+    container.appendChild(el);
+
+    this.charts = chartDefinitions.map((definition) => {
+      const title = document.createElement("div");
+      title.textContent = definition.title;
+      const canvas = document.createElement("canvas");
+      canvas.width = 240;
+      canvas.height = 72;
+      el.append(title, canvas);
+      return { ...definition, canvas };
+    });
+  }
+
+  push = (diagnostics: StepDiagnostics) => {
+    this.steps.push(diagnostics);
+    if (this.steps.length > this.history) this.steps.shift();
+  };
+
+  // Redraws every chart, once per frame is plenty
+  draw = () => {
+    for (const chart of this.charts) this.drawChart(chart);
+  };
+
+  private drawChart({ series, canvas }: Chart) {
+    const context = canvas.getContext("2d")!;
+    const { width, height } = canvas;
+    context.clearRect(0, 0, width, height);
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (const { value } of series) {
+      for (const step of this.steps) {
+        min = Math.min(min, value(step));
+        max = Math.max(max, value(step));
+      }
+    }
+    if (!isFinite(min) || !isFinite(max)) return;
+    const range = max - min || 1;
+
+    series.forEach(({ label, color, value }, i) => {
+      context.strokeStyle = color;
+      context.beginPath();
+      this.steps.forEach((step, x) => {
+        const y = height - ((value(step) - min) / range) * (height - 1) - 1;
+        const px = (x / (this.history - 1)) * width;
+        if (x === 0) context.moveTo(px, y);
+        else context.lineTo(px, y);
+      });
+      context.stroke();
+
+      const latest = this.steps[this.steps.length - 1];
+      context.fillStyle = color;
+      context.font = "10px sans-serif";
+      context.fillText(
+        `${label} ${value(latest).toPrecision(3)}`,
+        4,
+        12 + 11 * i,
+      );
+    });
+  }
+}
@@ -0,0 +1,454 @@
+import { Quat, Vec3 } from "gl-matrix";
+import Scene, { ObjectKind } from "./scene";
+import { Snapshot } from "./snapshot";
+import {
+  GltfDocument,
+  glbBinChunk,
+  glbJsonChunk,
+  glbMagic,
+} from "./gltfloader";
+
+// Triangles start / 3 up to (start + count) / 3 of indexData, all in one color
+interface ExportGroup {
+  name: string;
+  material: number;
+  start: number;
+  count: number;
+}
+
+// The mesh of one object, vertices in its local frame like the renderer gets
+// them
+interface ExportMesh {
+  name: string;
+  object: number;
+  p: Float32Array;
+  rotation: Float32Array;
+  vertexData: Float32Array;
+  indexData: Uint32Array;
+  uvData: Float32Array | null;
+  // When colors vary within a group, they're exported per vertex and the
+  // materials are white
+  vertexColors: boolean;
+  groups: ExportGroup[];
+}
+
+// Shared by every group with the same color
+interface ExportMaterial {
+  name: string;
+  color: Vec3;
+}
+
+const white = new Float32Array([1, 1, 1]);
+
+const hasOneColor = (
+  vertexData: Float32Array,
+  indexData: Uint32Array,
+  start: number,
+  count: number,
+) => {
+  const first = 9 * indexData[start] + 6;
+  for (let i = start; i < start + count; i++) {
+    const color = 9 * indexData[i] + 6;
+    for (let c = 0; c < 3; c++) {
+      if (vertexData[color + c] !== vertexData[first + c]) return false;
+    }
+  }
+  return true;
+};
+
+// Meshes of the objects that have one, as they are now or as they were in
+// snapshot. Particles aren't meshes and are left out.
+const getExportMeshes = (scene: Scene, snapshot: Snapshot | null = null) => {
+  const materials: ExportMaterial[] = [];
+  const materialIndices = new Map<string, number>();
+  const getMaterial = (color: Float32Array) => {
+    const key = color.join(",");
+    let material = materialIndices.get(key);
+    if (material === undefined) {
+      material = materials.length;
+      materials.push({
+        name: `material${material}`,
+        color: new Vec3(color[0], color[1], color[2]),
+      });
+      materialIndices.set(key, material);
+    }
+    return material;
+  };
+
+  const meshes: ExportMesh[] = [];
+  scene.objects.forEach((obj, i) => {
+    if (!obj.data) return;
+    const saved = snapshot?.objects[i];
+    const vertexData = saved?.cloth?.vertexData ?? obj.data.vertexData;
+    const indexData = saved?.cloth?.topology.indexData ?? obj.data.indexData;
+    if (indexData.length === 0) return;
+
+    const groups = (
+      obj.kind === ObjectKind.Model && obj.groups
+        ? obj.groups
+        : [{ name: "default", start: 0, count: indexData.length }]
+    ).filter(({ count }) => count > 0);
+    const vertexColors = !groups.every(({ start, count }) =>
+      hasOneColor(vertexData, indexData, start, count),
+    );
+    meshes.push({
+      name: `${ObjectKind[obj.kind]}${i}`,
+      object: i,
+      p: saved?.p ?? obj.render?.p ?? obj.p,
+      rotation: saved
+        ? (saved.rotation ?? Quat.create())
+        : (obj.render?.rotation ?? obj.rotation ?? Quat.create()),
+      vertexData,
+      indexData,
+      uvData: obj.kind === ObjectKind.Model ? (obj.uvData ?? null) : null,
+      vertexColors,
+      groups: groups.map(({ name, start, count }) => {
+        const color = 9 * indexData[start] + 6;
+        return {
+          name,
+          material: getMaterial(
+            vertexColors ? white : vertexData.subarray(color, color + 3),
+          ),
+          start,
+          count,
+        };
+      }),
+    });
+  });
+  return { meshes, materials };
+};
+
+const formatNumbers = (values: ArrayLike<number>) =>
+  Array.from(values, (value) => +value.toFixed(6)).join(" ");
+
+const worldP = new Vec3();
+const worldNormal = new Vec3();
+
+// An OBJ file with every mesh of the scene in world space, and the MTL file
+// with their colors, which the OBJ file expects to be called mtlName
+export const exportObj = (scene: Scene, mtlName = "scene.mtl") => {
+  const { meshes, materials } = getExportMeshes(scene);
+  const lines = [`mtllib ${mtlName}`];
+  // OBJ indices count from 1 across the whole file
+  let firstVertex = 1;
+
+  for (const mesh of meshes) {
+    const { vertexData, indexData, uvData, rotation } = mesh;
+    const vertexCount = vertexData.length / 9;
+    lines.push(`o ${mesh.name}`);
+    for (let v = 0; v < vertexCount; v++) {
+      worldP.set(vertexData.subarray(9 * v, 9 * v + 3));
+      Vec3.transformQuat(worldP, worldP, rotation);
+      Vec3.add(worldP, worldP, mesh.p);
+      // Colors after the position aren't standard, but common
+      const color = mesh.vertexColors
+        ? ` ${formatNumbers(vertexData.subarray(9 * v + 6, 9 * v + 9))}`
+        : "";
+      lines.push(`v ${formatNumbers(worldP)}${color}`);
+    }
+    for (let v = 0; v < vertexCount; v++) {
+      worldNormal.set(vertexData.subarray(9 * v + 3, 9 * v + 6));
+      Vec3.transformQuat(worldNormal, worldNormal, rotation);
+      lines.push(`vn ${formatNumbers(worldNormal)}`);
+    }
+    if (uvData) {
+      for (let v = 0; v < vertexCount; v++) {
+        lines.push(`vt ${formatNumbers(uvData.subarray(2 * v, 2 * v + 2))}`);
+      }
+    }
+
+    const corner = (vertex: number) => {
+      const index = firstVertex + vertex;
+      return uvData ? `${index}/${index}/${index}` : `${index}//${index}`;
+    };
+    for (const group of mesh.groups) {
+      if (mesh.groups.length > 1) lines.push(`g ${group.name}`);
+      lines.push(`usemtl ${materials[group.material].name}`);
+      for (let i = group.start; i < group.start + group.count; i += 3) {
+        lines.push(
+          `f ${corner(indexData[i])} ${corner(indexData[i + 1])} ${corner(indexData[i + 2])}`,
+        );
+      }
+    }
+    firstVertex += vertexCount;
+  }
+
+  const mtl = materials.flatMap(({ name, color }) => [
+    `newmtl ${name}`,
+    `Kd ${formatNumbers(color)}`,
+  ]);
+  return { obj: lines.join("\n") + "\n", mtl: mtl.join("\n") + "\n" };
+};
+
+const componentCounts: Record<string, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+};
+
+// Per component
+const getBounds = (data: Float32Array, components: number) => {
+  const min = Array.from(data.subarray(0, components));
+  const max = [...min];
+  for (let i = components; i < data.length; i++) {
+    const c = i % components;
+    min[c] = Math.min(min[c], data[i]);
+    max[c] = Math.max(max[c], data[i]);
+  }
+  return { min, max };
+};
+
+// Every mesh becomes a node at the object's p and rotation with a primitive
+// per group. With frames, the scene is exported as it was in the first one and
+// animated through the rest: nodes move and rotate, and cloth, ropes and soft
+// bodies get a morph target per frame.
+const buildGltf = (scene: Scene, frames: Snapshot[]) => {
+  const { meshes, materials } = getExportMeshes(scene, frames[0] ?? null);
+  const document: GltfDocument = {
+    asset: { version: "2.0", generator: "Blendycat" },
+    scene: 0,
+    scenes: [{ nodes: meshes.map((_, i) => i) }],
+    nodes: [],
+    meshes: [],
+    materials: materials.map(({ name, color }) => ({
+      name,
+      pbrMetallicRoughness: { baseColorFactor: [...color, 1] },
+    })),
+    accessors: [],
+    bufferViews: [],
+  };
+
+  // Every array has 4 byte components, so each view starts aligned
+  const chunks: Uint8Array[] = [];
+  let byteLength = 0;
+  const addAccessor = (
+    data: Float32Array | Uint32Array,
+    type: string,
+    withBounds = false,
+  ) => {
+    document.bufferViews!.push({
+      buffer: 0,
+      byteOffset: byteLength,
+      byteLength: data.byteLength,
+    });
+    chunks.push(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+    byteLength += data.byteLength;
+
+    const components = componentCounts[type];
+    document.accessors!.push({
+      bufferView: document.bufferViews!.length - 1,
+      componentType: data instanceof Float32Array ? 5126 : 5125,
+      count: data.length / components,
+      type,
+      ...(withBounds && data instanceof Float32Array
+        ? getBounds(data, components)
+        : {}),
+    });
+    return document.accessors!.length - 1;
+  };
+
+  meshes.forEach((mesh, i) => {
+    const { vertexData, indexData, uvData } = mesh;
+    const vertexCount = vertexData.length / 9;
+    const positions = new Float32Array(3 * vertexCount);
+    const normals = new Float32Array(3 * vertexCount);
+    const colors = new Float32Array(3 * vertexCount);
+    for (let v = 0; v < vertexCount; v++) {
+      positions.set(vertexData.subarray(9 * v, 9 * v + 3), 3 * v);
+      normals.set(vertexData.subarray(9 * v + 3, 9 * v + 6), 3 * v);
+      colors.set(vertexData.subarray(9 * v + 6, 9 * v + 9), 3 * v);
+    }
+
+    const attributes: Record<string, number> = {
+      POSITION: addAccessor(positions, "VEC3", true),
+      NORMAL: addAccessor(normals, "VEC3"),
+    };
+    if (mesh.vertexColors) attributes.COLOR_0 = addAccessor(colors, "VEC3");
+    if (uvData) attributes.TEXCOORD_0 = addAccessor(uvData.slice(), "VEC2");
+
+    document.nodes!.push({
+      name: mesh.name,
+      mesh: i,
+      translation: Array.from(mesh.p),
+      rotation: Array.from(mesh.rotation),
+    });
+    document.meshes!.push({
+      name: mesh.name,
+      primitives: mesh.groups.map(({ material, start, count }) => ({
+        attributes,
+        indices: addAccessor(indexData.slice(start, start + count), "SCALAR"),
+        material,
+      })),
+    });
+  });
+
+  if (frames.length > 1) {
+    document.animations = [
+      animateMeshes(meshes, frames, document, addAccessor),
+    ];
+  }
+
+  const bin = new Uint8Array(byteLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bin.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { document, bin };
+};
+
+type AddAccessor = (
+  data: Float32Array | Uint32Array,
+  type: string,
+  withBounds?: boolean,
+) => number;
+
+const concat = (arrays: Float32Array[]) => {
+  const result = new Float32Array(
+    arrays.reduce((length, array) => length + array.length, 0),
+  );
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+};
+
+// Morph target weights switch from one frame's target to the next between
+// frames, so the vertices move in straight lines like the nodes do
+const animateMeshes = (
+  meshes: ExportMesh[],
+  frames: Snapshot[],
+  document: GltfDocument,
+  addAccessor: AddAccessor,
+) => {
+  const animation: Required<GltfDocument>["animations"][number] = {
+    channels: [],
+    samplers: [],
+  };
+  const input = addAccessor(
+    Float32Array.from(frames, ({ time }) => time - frames[0].time),
+    "SCALAR",
+    true,
+  );
+  const addChannel = (node: number, path: string, output: number) => {
+    animation.samplers.push({ input, output, interpolation: "LINEAR" });
+    animation.channels.push({
+      sampler: animation.samplers.length - 1,
+      target: { node, path },
+    });
+  };
+
+  meshes.forEach((mesh, node) => {
+    const saved = frames.map((frame) => frame.objects[mesh.object]);
+    addChannel(
+      node,
+      "translation",
+      addAccessor(concat(saved.map(({ p }) => p)), "VEC3"),
+    );
+    addChannel(
+      node,
+      "rotation",
+      addAccessor(
+        concat(saved.map(({ rotation }) => rotation ?? mesh.rotation)),
+        "VEC4",
+      ),
+    );
+    if (!saved[0].cloth) return;
+
+    const { vertexData } = mesh;
+    const vertexCount = vertexData.length / 9;
+    const targets = saved.map(({ cloth }, k) => {
+      if (cloth?.vertexData.length !== vertexData.length) {
+        throw new Error(
+          `${mesh.name} tore ${(frames[k].time - frames[0].time).toFixed(2)}s into the animation, meshes can only be animated while they keep their vertices`,
+        );
+      }
+      const positions = new Float32Array(3 * vertexCount);
+      const normals = new Float32Array(3 * vertexCount);
+      for (let v = 0; v < vertexCount; v++) {
+        for (let axis = 0; axis < 3; axis++) {
+          const i = 9 * v + axis;
+          positions[3 * v + axis] = cloth.vertexData[i] - vertexData[i];
+          normals[3 * v + axis] = cloth.vertexData[i + 3] - vertexData[i + 3];
+        }
+      }
+      return {
+        POSITION: addAccessor(positions, "VEC3", true),
+        NORMAL: addAccessor(normals, "VEC3"),
+      };
+    });
+
+    const gltfMesh = document.meshes![node];
+    for (const primitive of gltfMesh.primitives) primitive.targets = targets;
+    gltfMesh.weights = targets.map(() => 0);
+
+    // Weight k is 1 at frame k and 0 everywhere else
+    const weights = new Float32Array(targets.length * targets.length);
+    for (let k = 0; k < targets.length; k++) {
+      weights[k * targets.length + k] = 1;
+    }
+    addChannel(node, "weights", addAccessor(weights, "SCALAR"));
+  });
+
+  return animation;
+};
+
+const toBase64 = (data: Uint8Array) => {
+  let binary = "";
+  // In pieces, spreading too many arguments overflows the stack
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// A .gltf file of the scene with its buffer embedded. With two or more frames
+// from a Recorder, it's animated through them.
+export const exportGltf = (scene: Scene, frames: Snapshot[] = []) => {
+  const { document, bin } = buildGltf(scene, frames);
+  if (bin.length > 0) {
+    document.buffers = [
+      {
+        uri: `data:application/octet-stream;base64,${toBase64(bin)}`,
+        byteLength: bin.length,
+      },
+    ];
+  }
+  return JSON.stringify(document);
+};
+
+const align4 = (length: number) => Math.ceil(length / 4) * 4;
+
+// Like exportGltf, but a binary .glb file
+export const exportGlb = (scene: Scene, frames: Snapshot[] = []) => {
+  const { document, bin } = buildGltf(scene, frames);
+  if (bin.length > 0) document.buffers = [{ byteLength: bin.length }];
+  const json = new TextEncoder().encode(JSON.stringify(document));
+
+  const jsonLength = align4(json.length);
+  const binLength = align4(bin.length);
+  const glb = new ArrayBuffer(
+    12 + 8 + jsonLength + (bin.length > 0 ? 8 + binLength : 0),
+  );
+  const view = new DataView(glb);
+  const bytes = new Uint8Array(glb);
+  view.setUint32(0, glbMagic, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, glb.byteLength, true);
+
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, glbJsonChunk, true);
+  // JSON is padded with spaces, binary data with zeros
+  bytes.fill(0x20, 20, 20 + jsonLength);
+  bytes.set(json, 20);
+  if (bin.length > 0) {
+    const binStart = 20 + jsonLength;
+    view.setUint32(binStart, binLength, true);
+    view.setUint32(binStart + 4, glbBinChunk, true);
+    bytes.set(bin, binStart + 8);
+  }
+  return glb;
+};
@@ -0,0 +1,126 @@
+import Scene from "./scene";
+import Recorder from "./recorder";
+import { Snapshot } from "./snapshot";
+import { exportGlb, exportGltf, exportObj } from "./exporter";
+import { SceneFile, serializeSceneFile } from "./scenefile";
+
+// Hands data to the browser as a file called name
+const download = (name: string, data: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Buttons that download the scene as it's shown or as a scene file, and the
+// recording between two times as an animated GLB file
+export default class ExportMenu {
+  private scene: Scene;
+  private recorder: Recorder;
+  // The scene with the settings it's shown with, to save as a scene file
+  private getSceneFile: () => SceneFile;
+
+  private fromInput: HTMLInputElement;
+  private toInput: HTMLInputElement;
+  private statusEl: HTMLSpanElement;
+
+  constructor(
+    container: HTMLElement,
+    scene: Scene,
+    recorder: Recorder,
+    getSceneFile: () => SceneFile,
+  ) {
+    this.scene = scene;
+    this.recorder = recorder;
+    this.getSceneFile = getSceneFile;
+
+    const el = document.createElement("div");
+    el.className = "export";
+    const button = (label: string, onClick: () => void) => {
+      const buttonEl = document.createElement("button");
+      buttonEl.textContent = label;
+      buttonEl.addEventListener("click", onClick);
+      return buttonEl;
+    };
+    const timeInput = (placeholder: string) => {
+      const input = document.createElement("input");
+      input.type = "number";
+      input.min = "0";
+      input.step = "0.1";
+      input.placeholder = placeholder;
+      return input;
+    };
+    this.fromInput = timeInput("from (s)");
+    this.toInput = timeInput("to (s)");
+    this.statusEl = document.createElement("span");
+    el.append(
+      button("OBJ", this.exportObj),
+      button("glTF", this.exportGltf),
+      button("GLB", this.exportGlb),
+      button("Scene", this.exportScene),
+      this.fromInput,
+      this.toInput,
+      button("Animation", this.exportAnimation),
+      this.statusEl,
+    );
+    container.appendChild(el);
+  }
+
+  exportObj = () => {
+    const { obj, mtl } = exportObj(this.scene);
+    download("scene.obj", obj, "model/obj");
+    download("scene.mtl", mtl, "text/plain");
+  };
+
+  exportGltf = () => {
+    download("scene.gltf", exportGltf(this.scene), "model/gltf+json");
+  };
+
+  exportGlb = () => {
+    download("scene.glb", exportGlb(this.scene), "model/gltf-binary");
+  };
+
+  exportScene = () => {
+    download(
+      "scene.json",
+      serializeSceneFile(this.getSceneFile()),
+      "application/json",
+    );
+  };
+
+  // Of the recorded frames between the from and to times, all of them when
+  // the inputs are empty
+  exportAnimation = () => {
+    const frames = this.getFrames();
+    if (frames.length < 2) {
+      this.statusEl.textContent = "Record at least two frames to export";
+      return;
+    }
+    try {
+      download(
+        "animation.glb",
+        exportGlb(this.scene, frames),
+        "model/gltf-binary",
+      );
+      this.statusEl.textContent = `Exported ${frames.length} frames`;
+    } catch (e) {
+      this.statusEl.textContent = (e as Error).message;
+    }
+  };
+
+  private getFrames() {
+    const from = this.fromInput.value
+      ? Number(this.fromInput.value)
+      : -Infinity;
+    const to = this.toInput.value ? Number(this.toInput.value) : Infinity;
+    const frames: Snapshot[] = [];
+    for (let frame = 0; frame < this.recorder.length; frame++) {
+      const snapshot = this.recorder.get(frame)!;
+      if (snapshot.time >= from && snapshot.time <= to) frames.push(snapshot);
+    }
+    return frames;
+  }
+}
@@ -0,0 +1,159 @@
+import { Vec3, Vec3Like } from "gl-matrix";
+
+export enum ForceKind {
+  Wind,
+  TurbulentWind,
+  Attractor,
+  Vortex,
+  Damping,
+}
+
+// Air velocity in m/s, acts on cloth and soft bodies through aerodynamic drag
+// and lift, and on ropes and particles through drag
+export interface Wind {
+  kind: ForceKind.Wind;
+  velocity: Vec3;
+}
+
+// Wind plus smooth noise of up to turbulence m/s, varying over scale meters
+// and changing frequency times per second
+export interface TurbulentWind {
+  kind: ForceKind.TurbulentWind;
+  velocity: Vec3;
+  turbulence: number;
+  scale: number;
+  frequency: number;
+  seed?: number;
+}
+
+// Pulls particles within radius towards p at strength m/s^2, negative
+// strength repels
+export interface Attractor {
+  kind: ForceKind.Attractor;
+  p: Vec3;
+  strength: number;
+  radius: number;
+}
+
+// Swirls particles within radius around the axis through p at strength m/s^2
+export interface Vortex {
+  kind: ForceKind.Vortex;
+  p: Vec3;
+  axis: Vec3;
+  strength: number;
+  radius: number;
+}
+
+// Slows particles down by coefficient times their velocity
+export interface Damping {
+  kind: ForceKind.Damping;
+  coefficient: number;
+}
+
+export type ForceField = Wind | TurbulentWind | Attractor | Vortex | Damping;
+
+const hash = (x: number, y: number, z: number, seed: number) => {
+  let h = (x * 374761393 + y * 668265263 + z * 2147483647 + seed * 144665) | 0;
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967295;
+};
+
+const smooth = (t: number) => t * t * (3 - 2 * t);
+
+// Value noise in [-1, 1], deterministic so simulations stay reproducible
+const noise = (x: number, y: number, z: number, seed: number) => {
+  const xi = Math.floor(x),
+    yi = Math.floor(y),
+    zi = Math.floor(z);
+  const u = smooth(x - xi),
+    v = smooth(y - yi),
+    w = smooth(z - zi);
+
+  let result = 0;
+  for (let corner = 0; corner < 8; corner++) {
+    const dx = corner & 1,
+      dy = (corner >> 1) & 1,
+      dz = (corner >> 2) & 1;
+    const weight = (dx ? u : 1 - u) * (dy ? v : 1 - v) * (dz ? w : 1 - w);
+    result += weight * hash(xi + dx, yi + dy, zi + dz, seed);
+  }
+  return result * 2 - 1;
+};
+
+export const getWindVelocity = (
+  fields: ForceField[],
+  p: Readonly<Vec3Like>,
+  t: number,
+  out: Vec3,
+) => {
+  out.x = out.y = out.z = 0;
+
+  for (const field of fields) {
+    switch (field.kind) {
+      case ForceKind.Wind:
+        out.add(field.velocity);
+        break;
+      case ForceKind.TurbulentWind: {
+        out.add(field.velocity);
+        const seed = field.seed ?? 0;
+        const x = p[0] / field.scale,
+          y = p[1] / field.scale,
+          z = p[2] / field.scale + t * field.frequency;
+        out.x += noise(x, y, z, seed) * field.turbulence;
+        out.y += noise(x, y, z, seed + 1) * field.turbulence;
+        out.z += noise(x, y, z, seed + 2) * field.turbulence;
+        break;
+      }
+    }
+  }
+
+  return out;
+};
+
+const vortexAxis = new Vec3();
+const vortexOffset = new Vec3();
+
+export const getFieldAcceleration = (
+  fields: ForceField[],
+  p: Readonly<Vec3Like>,
+  v: Readonly<Vec3Like>,
+  out: Vec3,
+) => {
+  out.x = out.y = out.z = 0;
+
+  for (const field of fields) {
+    switch (field.kind) {
+      case ForceKind.Attractor: {
+        const dx = field.p[0] - p[0],
+          dy = field.p[1] - p[1],
+          dz = field.p[2] - p[2];
+        const dist = Math.hypot(dx, dy, dz);
+        if (dist === 0 || dist > field.radius) break;
+
+        const falloff = 1 - dist / field.radius;
+        const a = (field.strength * falloff) / dist;
+        out.x += dx * a;
+        out.y += dy * a;
+        out.z += dz * a;
+        break;
+      }
+      case ForceKind.Vortex: {
+        const axis = Vec3.normalize(vortexAxis, field.axis) as Vec3;
+        const r = Vec3.subtract(vortexOffset, p, field.p) as Vec3;
+        r.scaleAndAdd(axis, -r.dot(axis));
+        const dist = r.magnitude;
+        if (dist === 0 || dist > field.radius) break;
+
+        const falloff = 1 - dist / field.radius;
+        const tangent = Vec3.cross(r, axis, r) as Vec3;
+        out.scaleAndAdd(tangent, (field.strength * falloff) / dist);
+        break;
+      }
+      case ForceKind.Damping:
+        out.scaleAndAdd(v, -field.coefficient);
+        break;
+    }
+  }
+
+  return out;
+};
@@ -0,0 +1,572 @@
+import { Mat3, Mat4, Quat, Vec3 } from "gl-matrix";
+import { MeshGroup, ModelMesh, ModelParseError } from "./modelmesh";
+
+// A glTF file that isn't valid or uses something unsupported, at is the path
+// into its JSON, like meshes[0].primitives[1]
+export class GltfParseError extends ModelParseError {
+  at: string;
+
+  constructor(file: string, at: string, message: string) {
+    super(file, at ? `${file}: ${at}: ${message}` : `${file}: ${message}`);
+    this.name = "GltfParseError";
+    this.at = at;
+  }
+}
+
+interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: string;
+  min?: number[];
+  max?: number[];
+  sparse?: unknown;
+}
+
+interface GltfBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+}
+
+interface GltfPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  material?: number;
+  mode?: number;
+  // Morph targets, which the loader ignores
+  targets?: Record<string, number>[];
+}
+
+interface GltfNode {
+  name?: string;
+  children?: number[];
+  mesh?: number;
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+}
+
+interface GltfAnimation {
+  channels: {
+    sampler: number;
+    target: { node: number; path: string };
+  }[];
+  samplers: { input: number; output: number; interpolation?: string }[];
+}
+
+// The parts of a glTF 2.0 document the loader reads and the exporter writes
+export interface GltfDocument {
+  asset: { version: string; generator?: string };
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: GltfNode[];
+  meshes?: { name?: string; primitives: GltfPrimitive[]; weights?: number[] }[];
+  materials?: {
+    name?: string;
+    pbrMetallicRoughness?: { baseColorFactor?: number[] };
+  }[];
+  accessors?: GltfAccessor[];
+  bufferViews?: GltfBufferView[];
+  buffers?: { uri?: string; byteLength: number }[];
+  animations?: GltfAnimation[];
+}
+
+type Fail = (at: string, message: string) => never;
+
+const failIn =
+  (file: string): Fail =>
+  (at, message) => {
+    throw new GltfParseError(file, at, message);
+  };
+
+// Bytes of each componentType
+const componentSizes: Record<number, number> = {
+  5120: 1,
+  5121: 1,
+  5122: 2,
+  5123: 2,
+  5125: 4,
+  5126: 4,
+};
+
+const typeSizes: Record<string, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+};
+
+enum PrimitiveMode {
+  Triangles = 4,
+  TriangleStrip = 5,
+  TriangleFan = 6,
+}
+
+// name is only used in errors
+export const parseGltf = (content: string, name = "model.gltf") => {
+  const fail: Fail = failIn(name);
+
+  let document: GltfDocument;
+  try {
+    document = JSON.parse(content);
+  } catch (e) {
+    return fail("", `isn't valid JSON, ${(e as Error).message}`);
+  }
+
+  const version = document?.asset?.version;
+  if (typeof version !== "string") fail("asset.version", "is missing");
+  if (!version.startsWith("2.")) {
+    fail("asset.version", `is ${version}, only glTF 2 is supported`);
+  }
+  return document;
+};
+
+export const glbMagic = 0x46546c67;
+export const glbJsonChunk = 0x4e4f534a;
+export const glbBinChunk = 0x004e4942;
+
+export const isGlb = (data: ArrayBuffer) =>
+  data.byteLength >= 4 && new DataView(data).getUint32(0, true) === glbMagic;
+
+// The JSON and binary chunks of a GLB file
+export const parseGlb = (data: ArrayBuffer, name = "model.glb") => {
+  const fail: Fail = failIn(name);
+  const view = new DataView(data);
+
+  if (data.byteLength < 20 || !isGlb(data)) {
+    fail("", "isn't a GLB file");
+  }
+  if (view.getUint32(4, true) !== 2) {
+    fail("", `is GLB version ${view.getUint32(4, true)}, only 2 is supported`);
+  }
+
+  let json: string | null = null;
+  let bin: ArrayBuffer | null = null;
+  const length = Math.min(view.getUint32(8, true), data.byteLength);
+  for (let offset = 12; offset + 8 <= length;) {
+    const chunkLength = view.getUint32(offset, true);
+    const chunkType = view.getUint32(offset + 4, true);
+    const start = offset + 8;
+    if (start + chunkLength > length) {
+      fail("", `chunk at byte ${offset} runs past the end of the file`);
+    }
+
+    if (chunkType === glbJsonChunk && json === null) {
+      json = new TextDecoder().decode(new Uint8Array(data, start, chunkLength));
+    } else if (chunkType === glbBinChunk && bin === null) {
+      bin = data.slice(start, start + chunkLength);
+    }
+    offset = start + chunkLength;
+  }
+
+  if (json === null) return fail("", "has no JSON chunk");
+  return { document: parseGltf(json, name), bin };
+};
+
+// uri of every buffer that lives in a separate file, null for embedded ones
+export const getExternalBufferUris = (document: GltfDocument) =>
+  (document.buffers ?? []).map(({ uri }) =>
+    uri === undefined || uri.startsWith("data:") ? null : decodeURI(uri),
+  );
+
+const decodeDataUri = (uri: string, at: string, fail: Fail) => {
+  const comma = uri.indexOf(",");
+  if (!uri.slice(0, comma).endsWith(";base64")) {
+    fail(at, "only base64 data URIs are supported");
+  }
+  const bytes = atob(uri.slice(comma + 1));
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) buffer[i] = bytes.charCodeAt(i);
+  return buffer.buffer;
+};
+
+// Contents of every buffer. external holds the fetched files of
+// getExternalBufferUris, bin the binary chunk of a GLB.
+export const getGltfBuffers = (
+  document: GltfDocument,
+  external: (ArrayBuffer | null)[],
+  bin: ArrayBuffer | null,
+  name = "model.gltf",
+) => {
+  const fail: Fail = failIn(name);
+
+  return (document.buffers ?? []).map(({ uri, byteLength }, i) => {
+    const at = `buffers[${i}]`;
+    let buffer: ArrayBuffer | null;
+    if (uri === undefined) {
+      buffer = i === 0 ? bin : null;
+      if (!buffer) fail(at, "has no uri and there's no GLB binary chunk");
+    } else if (uri.startsWith("data:")) {
+      buffer = decodeDataUri(uri, `${at}.uri`, fail);
+    } else {
+      buffer = external[i];
+      if (!buffer) fail(`${at}.uri`, `${uri} wasn't loaded`);
+    }
+
+    if (buffer.byteLength < byteLength) {
+      fail(at, `has ${buffer.byteLength} bytes, expected ${byteLength}`);
+    }
+    return buffer;
+  });
+};
+
+const get = <T>(
+  list: T[] | undefined,
+  index: number,
+  at: string,
+  fail: Fail,
+): T => {
+  const item = Number.isInteger(index) ? list?.[index] : undefined;
+  if (item === undefined) return fail(at, `${index} doesn't exist`);
+  return item;
+};
+
+// Elements of an accessor as floats, normalized integers mapped to [0, 1] or
+// [-1, 1]
+const readAccessor = (
+  document: GltfDocument,
+  buffers: ArrayBuffer[],
+  index: number,
+  at: string,
+  fail: Fail,
+) => {
+  const accessor = get(document.accessors, index, at, fail);
+  const accessorAt = `accessors[${index}]`;
+  const componentSize = componentSizes[accessor.componentType];
+  const size = typeSizes[accessor.type];
+  if (!componentSize) {
+    fail(`${accessorAt}.componentType`, `${accessor.componentType} is unknown`);
+  }
+  if (!size) fail(`${accessorAt}.type`, `${accessor.type} isn't supported`);
+  if (accessor.sparse) fail(`${accessorAt}.sparse`, "isn't supported");
+
+  const data = new Float64Array(accessor.count * size);
+  if (accessor.bufferView === undefined) return { data, size };
+
+  const bufferViewAt = `${accessorAt}.bufferView`;
+  const bufferView = get(
+    document.bufferViews,
+    accessor.bufferView,
+    bufferViewAt,
+    fail,
+  );
+  const buffer = get(
+    buffers,
+    bufferView.buffer,
+    `${bufferViewAt}.buffer`,
+    fail,
+  );
+  const viewOffset = bufferView.byteOffset ?? 0;
+  if (viewOffset + bufferView.byteLength > buffer.byteLength) {
+    fail(bufferViewAt, "runs past the end of its buffer");
+  }
+
+  const stride = bufferView.byteStride ?? componentSize * size;
+  const start = viewOffset + (accessor.byteOffset ?? 0);
+  const end =
+    start + stride * Math.max(accessor.count - 1, 0) + componentSize * size;
+  if (accessor.count > 0 && end > viewOffset + bufferView.byteLength) {
+    fail(accessorAt, "runs past the end of its bufferView");
+  }
+
+  const view = new DataView(buffer);
+  const read = (offset: number) => {
+    switch (accessor.componentType) {
+      case 5120: {
+        const value = view.getInt8(offset);
+        return accessor.normalized ? Math.max(value / 127, -1) : value;
+      }
+      case 5121: {
+        const value = view.getUint8(offset);
+        return accessor.normalized ? value / 255 : value;
+      }
+      case 5122: {
+        const value = view.getInt16(offset, true);
+        return accessor.normalized ? Math.max(value / 32767, -1) : value;
+      }
+      case 5123: {
+        const value = view.getUint16(offset, true);
+        return accessor.normalized ? value / 65535 : value;
+      }
+      case 5125:
+        return view.getUint32(offset, true);
+      default:
+        return view.getFloat32(offset, true);
+    }
+  };
+
+  for (let i = 0; i < accessor.count; i++) {
+    for (let c = 0; c < size; c++) {
+      data[i * size + c] = read(start + i * stride + c * componentSize);
+    }
+  }
+  return { data, size };
+};
+
+// Vertex indices of the triangles of a primitive, as a triangle list
+const getTriangles = (mode: PrimitiveMode, indices: ArrayLike<number>) => {
+  const triangles: number[] = [];
+  switch (mode) {
+    case PrimitiveMode.Triangles:
+      for (let i = 0; i + 2 < indices.length; i += 3) {
+        triangles.push(indices[i], indices[i + 1], indices[i + 2]);
+      }
+      break;
+    case PrimitiveMode.TriangleStrip:
+      // Every other triangle is flipped back to the strip's winding
+      for (let i = 0; i + 2 < indices.length; i++) {
+        if (i % 2 === 0) {
+          triangles.push(indices[i], indices[i + 1], indices[i + 2]);
+        } else {
+          triangles.push(indices[i + 1], indices[i], indices[i + 2]);
+        }
+      }
+      break;
+    case PrimitiveMode.TriangleFan:
+      for (let i = 1; i + 1 < indices.length; i++) {
+        triangles.push(indices[0], indices[i], indices[i + 1]);
+      }
+      break;
+  }
+  return triangles;
+};
+
+const local = Mat4.create();
+const rotation = Quat.create();
+const translation = new Vec3();
+const scale = new Vec3();
+const normalMatrix = Mat3.create();
+const p = new Vec3();
+const normal = new Vec3();
+const edge1 = new Vec3();
+const edge2 = new Vec3();
+
+const getLocalMatrix = (node: GltfNode, out: Mat4) => {
+  if (node.matrix) {
+    out.set(node.matrix);
+    return out;
+  }
+
+  rotation.set(node.rotation ?? [0, 0, 0, 1]);
+  translation.set(node.translation ?? [0, 0, 0]);
+  scale.set(node.scale ?? [1, 1, 1]);
+  return Mat4.fromRotationTranslationScale(
+    out,
+    rotation,
+    translation,
+    scale,
+  ) as Mat4;
+};
+
+// Every primitive of every mesh in the document's scene, with its node's
+// transform baked in, as one sub-mesh each. Primitives without a material get
+// color, points and lines are left out.
+export const buildGltfMesh = (
+  document: GltfDocument,
+  buffers: ArrayBuffer[],
+  color: Vec3,
+  name = "model.gltf",
+): ModelMesh => {
+  const fail: Fail = failIn(name);
+
+  const vertexData: number[] = [];
+  const uvData: number[] = [];
+  const indexData: number[] = [];
+  const groups: MeshGroup[] = [];
+
+  const addPrimitive = (
+    primitive: GltfPrimitive,
+    at: string,
+    groupName: string,
+    world: Mat4,
+  ) => {
+    const mode: PrimitiveMode = primitive.mode ?? PrimitiveMode.Triangles;
+    if (!(mode in PrimitiveMode)) return;
+
+    const attributes = primitive.attributes ?? {};
+    if (attributes.POSITION === undefined) {
+      fail(`${at}.attributes`, "has no POSITION");
+    }
+    const read = (index: number, what: string) =>
+      readAccessor(document, buffers, index, `${at}.${what}`, fail);
+
+    const positions = read(attributes.POSITION, "attributes.POSITION");
+    const vertexCount = positions.data.length / positions.size;
+    if (positions.size !== 3) {
+      fail(`${at}.attributes.POSITION`, "isn't a VEC3");
+    }
+    const readVertexAttribute = (attribute: string, sizes: number[]) => {
+      if (attributes[attribute] === undefined) return null;
+      const what = `attributes.${attribute}`;
+      const values = read(attributes[attribute], what);
+      if (!sizes.includes(values.size)) {
+        fail(`${at}.${what}`, `has ${values.size} components`);
+      }
+      if (values.data.length / values.size !== vertexCount) {
+        fail(`${at}.${what}`, "doesn't have one element per vertex");
+      }
+      return values;
+    };
+    const normals = readVertexAttribute("NORMAL", [3]);
+    const uvs = readVertexAttribute("TEXCOORD_0", [2]);
+    const colors = readVertexAttribute("COLOR_0", [3, 4]);
+
+    let indices: ArrayLike<number>;
+    if (primitive.indices === undefined) {
+      indices = Array.from({ length: vertexCount }, (_, i) => i);
+    } else {
+      indices = read(primitive.indices, "indices").data;
+      for (let i = 0; i < indices.length; i++) {
+        if (indices[i] >= vertexCount) {
+          fail(`${at}.indices`, `${indices[i]} is out of range`);
+        }
+      }
+    }
+    const triangles = getTriangles(mode, indices);
+
+    let materialName: string | null = null;
+    let baseColor: ArrayLike<number> = color;
+    if (primitive.material !== undefined) {
+      const material = get(
+        document.materials,
+        primitive.material,
+        `${at}.material`,
+        fail,
+      );
+      materialName = material.name ?? `material ${primitive.material}`;
+      baseColor = material.pbrMetallicRoughness?.baseColorFactor ?? [1, 1, 1];
+    }
+
+    Mat3.normalFromMat4(normalMatrix, world);
+    // Mirroring transforms turn triangles inside out
+    const flip = Mat4.determinant(world) < 0;
+
+    // Without normals every triangle gets its own flat shaded vertices, like
+    // the spec asks for
+    const vertexOrder = normals ? null : triangles;
+    const count = vertexOrder ? vertexOrder.length : vertexCount;
+    const first = vertexData.length / 9;
+    for (let i = 0; i < count; i++) {
+      const v = vertexOrder ? vertexOrder[i] : i;
+
+      p.set(positions.data.subarray(3 * v, 3 * v + 3));
+      Vec3.transformMat4(p, p, world);
+      if (normals) {
+        normal.set(normals.data.subarray(3 * v, 3 * v + 3));
+        Vec3.transformMat3(normal, normal, normalMatrix);
+        if (normal.squaredMagnitude > 0) normal.normalize();
+      } else {
+        normal.set([0, 0, 0]);
+      }
+      vertexData.push(...p, ...normal, 0, 0, 0);
+
+      const colorOffset = vertexData.length - 3;
+      for (let c = 0; c < 3; c++) {
+        const vertexColor = colors ? colors.data[colors.size * v + c] : 1;
+        vertexData[colorOffset + c] = baseColor[c] * vertexColor;
+      }
+      uvData.push(uvs ? uvs.data[2 * v] : 0, uvs ? uvs.data[2 * v + 1] : 0);
+    }
+
+    const start = indexData.length;
+    for (let i = 0; i < triangles.length; i += 3) {
+      const [a, b, c] = vertexOrder
+        ? [i, i + 1, i + 2]
+        : [triangles[i], triangles[i + 1], triangles[i + 2]];
+      if (flip) indexData.push(first + a, first + c, first + b);
+      else indexData.push(first + a, first + b, first + c);
+    }
+
+    if (!normals) {
+      for (let i = start; i < indexData.length; i += 3) {
+        const [a, b, c] = [indexData[i], indexData[i + 1], indexData[i + 2]];
+        p.set(vertexData.slice(9 * a, 9 * a + 3));
+        edge1.set(vertexData.slice(9 * b, 9 * b + 3));
+        edge2.set(vertexData.slice(9 * c, 9 * c + 3));
+        edge1.sub(p);
+        edge2.sub(p);
+        Vec3.cross(normal, edge1, edge2);
+        if (normal.squaredMagnitude > 0) normal.normalize();
+        for (const vertex of [a, b, c]) {
+          for (let axis = 0; axis < 3; axis++) {
+            vertexData[9 * vertex + 3 + axis] = normal[axis];
+          }
+        }
+      }
+    }
+
+    groups.push({
+      name: groupName,
+      material: materialName,
+      start,
+      count: indexData.length - start,
+    });
+  };
+
+  const visited = new Set<number>();
+  const addNode = (index: number, at: string, parent: Mat4) => {
+    const node = get(document.nodes, index, at, fail);
+    if (visited.has(index)) fail(at, `node ${index} is its own ancestor`);
+    visited.add(index);
+
+    const world = Mat4.multiply(
+      Mat4.create(),
+      parent,
+      getLocalMatrix(node, local),
+    ) as Mat4;
+
+    if (node.mesh !== undefined) {
+      const meshAt = `nodes[${index}].mesh`;
+      const mesh = get(document.meshes, node.mesh, meshAt, fail);
+      const groupName = mesh.name ?? node.name ?? `mesh ${node.mesh}`;
+      (mesh.primitives ?? []).forEach((primitive, i) =>
+        addPrimitive(
+          primitive,
+          `meshes[${node.mesh}].primitives[${i}]`,
+          groupName,
+          world,
+        ),
+      );
+    }
+
+    (node.children ?? []).forEach((child, i) =>
+      addNode(child, `nodes[${index}].children[${i}]`, world),
+    );
+    visited.delete(index);
+  };
+
+  for (const [node, at] of getRootNodes(document, fail)) {
+    addNode(node, at, Mat4.create() as Mat4);
+  }
+
+  return {
+    vertexData: new Float32Array(vertexData),
+    indexData: new Uint32Array(indexData),
+    uvData: new Float32Array(uvData),
+    groups,
+  };
+};
+
+// Nodes of the default scene, or every node that isn't a child when there are
+// no scenes, with where each is referenced
+const getRootNodes = (
+  document: GltfDocument,
+  fail: Fail,
+): [number, string][] => {
+  if (document.scenes?.length) {
+    const scene = document.scene ?? 0;
+    const { nodes = [] } = get(document.scenes, scene, "scene", fail);
+    return nodes.map((node, i) => [node, `scenes[${scene}].nodes[${i}]`]);
+  }
+
+  const nodes = document.nodes ?? [];
+  const children = new Set(nodes.flatMap((node) => node.children ?? []));
+  return nodes.flatMap((_, i): [number, string][] =>
+    children.has(i) ? [] : [[i, `nodes[${i}]`]],
+  );
+};
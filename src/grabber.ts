@@ -0,0 +1,205 @@
+import { Quat, Vec3 } from "gl-matrix";
+import Scene, { ObjectKind, SceneObject } from "./scene";
+import { Camera } from "./renderer";
+import { Grab } from "./modeler";
+
+// Floats per vertex in vertexData
+const vertexSize = 9;
+// How close to the ray a particle has to be when no triangle is hit
+const pickRadius = 0.1;
+
+export interface ClothPick {
+  object: number;
+  vertex: number;
+  // Where the picked vertex is drawn, in world space
+  p: Vec3;
+}
+
+const e1 = new Vec3();
+const e2 = new Vec3();
+const pVec = new Vec3();
+const tVec = new Vec3();
+const qVec = new Vec3();
+const identity = Quat.create();
+
+// Vertex at offset in the vertex data of obj, where the renderer draws it
+const readDrawnVertex = (
+  out: Vec3,
+  vertexData: Float32Array,
+  offset: number,
+  obj: SceneObject,
+) => {
+  out.set(vertexData.subarray(offset, offset + 3));
+  Vec3.transformQuat(
+    out,
+    out,
+    obj.render?.rotation ?? obj.rotation ?? identity,
+  );
+  return out.add(obj.render?.p ?? obj.p);
+};
+
+// Möller-Trumbore, returns the distance along the ray or Infinity on a miss
+const intersectTriangle = (
+  origin: Vec3,
+  direction: Vec3,
+  a: Vec3,
+  b: Vec3,
+  c: Vec3,
+) => {
+  Vec3.sub(e1, b, a);
+  Vec3.sub(e2, c, a);
+  Vec3.cross(pVec, direction, e2);
+  const det = Vec3.dot(e1, pVec);
+  if (Math.abs(det) < 1e-12) return Infinity;
+
+  Vec3.sub(tVec, origin, a);
+  const u = Vec3.dot(tVec, pVec) / det;
+  if (u < 0 || u > 1) return Infinity;
+
+  Vec3.cross(qVec, tVec, e1);
+  const v = Vec3.dot(direction, qVec) / det;
+  if (v < 0 || u + v > 1) return Infinity;
+
+  const t = Vec3.dot(e2, qVec) / det;
+  return t > 0 ? t : Infinity;
+};
+
+// Picks the cloth vertex under a ray: the corner of the nearest hit triangle
+// closest to the hit, or failing that the nearest particle within pickRadius
+// of the ray. Reads the rendered vertex data and transform, which are current
+// even when the cloth is simulated elsewhere.
+export const pickCloth = (
+  scene: Scene,
+  origin: Vec3,
+  direction: Vec3,
+): ClothPick | null => {
+  const corners = [new Vec3(), new Vec3(), new Vec3()];
+  let best: ClothPick | null = null;
+  let bestT = Infinity;
+
+  scene.objects.forEach((obj, object) => {
+    if (obj.kind !== ObjectKind.Cloth || !obj.data) return;
+    const { vertexData, indexData } = obj.data;
+
+    for (let i = 0; i < indexData.length; i += 3) {
+      for (let corner = 0; corner < 3; corner++) {
+        const offset = indexData[i + corner] * vertexSize;
+        readDrawnVertex(corners[corner], vertexData, offset, obj);
+      }
+
+      const [a, b, c] = corners;
+      const t = intersectTriangle(origin, direction, a, b, c);
+      if (t >= bestT) continue;
+      bestT = t;
+
+      const hit = Vec3.scaleAndAdd(pVec, origin, direction, t);
+      let nearest = 0;
+      for (let corner = 1; corner < 3; corner++) {
+        if (
+          Vec3.squaredDistance(hit, corners[corner]) <
+          Vec3.squaredDistance(hit, corners[nearest])
+        ) {
+          nearest = corner;
+        }
+      }
+      best = {
+        object,
+        vertex: indexData[i + nearest],
+        p: Vec3.clone(corners[nearest]),
+      };
+    }
+  });
+  if (best) return best;
+
+  const particle = new Vec3();
+  scene.objects.forEach((obj, object) => {
+    if (obj.kind !== ObjectKind.Cloth || !obj.data) return;
+    const { vertexData } = obj.data;
+
+    for (let vertex = 0; vertex < vertexData.length / vertexSize; vertex++) {
+      readDrawnVertex(particle, vertexData, vertex * vertexSize, obj);
+
+      const t = Vec3.dot(Vec3.sub(tVec, particle, origin), direction);
+      if (t <= 0 || t >= bestT) continue;
+      const closest = Vec3.scaleAndAdd(pVec, origin, direction, t);
+      if (Vec3.distance(closest, particle) > pickRadius) continue;
+
+      bestT = t;
+      best = { object, vertex, p: Vec3.clone(particle) };
+    }
+  });
+  return best;
+};
+
+// Drags cloth with shift + left or the right mouse button. The grabbed vertex
+// follows the cursor across the plane facing the camera it was picked on.
+export default class ClothGrabber {
+  private canvas: HTMLCanvasElement;
+  private camera: Camera;
+  private scene: Scene;
+  private modeler: { grab: Grab | null };
+
+  // Distance of the drag plane along the camera's view direction
+  private depth = 0;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    camera: Camera,
+    scene: Scene,
+    modeler: { grab: Grab | null },
+  ) {
+    this.canvas = canvas;
+    this.camera = camera;
+    this.scene = scene;
+    this.modeler = modeler;
+    this.setupEventListeners();
+  }
+
+  private setupEventListeners() {
+    this.canvas.addEventListener("contextmenu", (e) => e.preventDefault());
+
+    this.canvas.addEventListener("mousedown", (e) => {
+      if (!e.shiftKey && e.button !== 2) return;
+
+      const ray = this.camera.getRay(e.clientX, e.clientY);
+      if (!ray) return;
+      const { origin, direction } = ray;
+      const pick = pickCloth(this.scene, origin, direction);
+      if (!pick) return;
+
+      // From the vertex rather than the ray hit, so the vertex doesn't jump
+      // when grabbed
+      this.depth = Vec3.dot(
+        Vec3.sub(new Vec3(), pick.p, origin),
+        this.getViewDirection(),
+      );
+      this.modeler.grab = {
+        object: pick.object,
+        vertex: pick.vertex,
+        target: pick.p,
+      };
+    });
+
+    window.addEventListener("mouseup", () => {
+      this.modeler.grab = null;
+    });
+
+    window.addEventListener("mousemove", (e) => {
+      const grab = this.modeler.grab;
+      if (!grab) return;
+
+      const ray = this.camera.getRay(e.clientX, e.clientY);
+      if (!ray) return;
+      const { origin, direction } = ray;
+      const along = Vec3.dot(direction, this.getViewDirection());
+      if (along <= 0) return;
+
+      Vec3.scaleAndAdd(grab.target, origin, direction, this.depth / along);
+    });
+  }
+
+  private getViewDirection() {
+    const direction = Vec3.sub(new Vec3(), this.camera.target, this.camera.p);
+    return (direction as Vec3).normalize();
+  }
+}
@@ -1,65 +1,117 @@
 import "./style.css";
 import Renderer from "./renderer";
 import Modeler from "./modeler";
-import Scene, { ObjectKind, Cloth, Sphere, Box } from "./scene";
-import { Vec3, Vec2 } from "gl-matrix";
+import WorkerModeler from "./workermodeler";
+import SimulationClock from "./clock";
+import ClothGrabber from "./grabber";
+import Timeline from "./timeline";
+import Recorder from "./recorder";
+import ExportMenu from "./exportmenu";
+import DiagnosticsPanel from "./diagnosticspanel";
+import { SceneFile, loadSceneFile, parseSceneFile } from "./scenefile";
 
 const canvas = document.createElement("canvas");
 document.querySelector<HTMLDivElement>("#app")!.appendChild(canvas);
 
+// A scene file dropped on the page is kept here for the reload that shows it
+const droppedSceneKey = "droppedScene";
+
+// The dropped scene once, otherwise ?scene=name loads public/scenes/name.json,
+// the demo by default
+const loadScene = async (params: URLSearchParams): Promise<SceneFile> => {
+  const dropped = sessionStorage.getItem(droppedSceneKey);
+  if (dropped !== null) {
+    sessionStorage.removeItem(droppedSceneKey);
+    const { name, content } = JSON.parse(dropped);
+    return parseSceneFile(content, name);
+  }
+  return loadSceneFile(`scenes/${params.get("scene") ?? "demo"}.json`);
+};
+
 const main = async () => {
   console.log("Start!");
-  const scene = new Scene([
-    {
-      kind: ObjectKind.Box,
-      length: 15,
-      width: 15,
-      height: 0.25,
-
-      color: new Vec3(30).scale(1 / 255),
-      p: new Vec3(0, -0.125, 0),
-      v: new Vec3(0, 0, 0),
-      a: new Vec3(0, 0, 0),
-    },
-    {
-      kind: ObjectKind.Sphere,
-      radius: 1,
-      hPrec: 50,
-      vPrec: 50,
-
-      color: new Vec3(30, 50, 250).scale(1 / 255),
-      p: new Vec3(0, 1, 0),
-      v: new Vec3(0, 0, 0),
-      a: new Vec3(0, 0, 0),
-    },
-    {
-      kind: ObjectKind.Cloth,
-      length: 3,
-      width: 3,
-      divisions: new Vec2(30),
-
-      color: new Vec3(220, 220, 220).scale(1 / 255),
-      p: new Vec3(0, 5, 0),
-      v: new Vec3(0, 0, 0),
-      a: new Vec3(0, 0, 0),
-    },
-    {
-      kind: ObjectKind.Model,
-      filepath: "teapot.obj",
-
-      color: new Vec3(40).scale(1 / 255),
-      p: new Vec3(-5, 0, -5),
-      v: new Vec3(0, 0, 0),
-      a: new Vec3(0, 0, 0),
-    },
-  ]);
+
+  const messageEl = document.createElement("p");
+  messageEl.style.margin = "0";
+  document.querySelector<HTMLDivElement>("#app")!.appendChild(messageEl);
+
+  window.addEventListener("dragover", (e) => e.preventDefault());
+  window.addEventListener("drop", async (e) => {
+    e.preventDefault();
+    const file = e.dataTransfer?.files[0];
+    if (!file) return;
+    try {
+      const content = await file.text();
+      parseSceneFile(content, file.name);
+      sessionStorage.setItem(
+        droppedSceneKey,
+        JSON.stringify({ name: file.name, content }),
+      );
+      location.reload();
+    } catch (err) {
+      messageEl.innerText = String(err);
+    }
+  });
 
   try {
-    const modeler = new Modeler();
+    const params = new URLSearchParams(location.search);
+    const { scene, physics, camera, light } = await loadScene(params);
+    // ?worker moves the physics off the main thread
+    const modeler = params.has("worker") ? new WorkerModeler() : new Modeler();
+    modeler.substeps = physics.substeps;
+    modeler.gravity.set(physics.gravity);
+    const clock = new SimulationClock(physics.fixedDt);
     const renderer = new Renderer(canvas);
     await renderer.init();
+    renderer.camera.fov = camera.fov;
+    renderer.camera.setPosition(camera.p, camera.target);
+    renderer.light.p.set(light.p);
 
+    const loadingEl = document.createElement("p");
+    loadingEl.style.margin = "0";
+    document.querySelector<HTMLDivElement>("#app")!.appendChild(loadingEl);
+    scene.assets.subscribe(({ loaded, total }) => {
+      loadingEl.innerText = `Loading ${loaded}/${total} files`;
+    });
     await scene.getVertices();
+    loadingEl.remove();
+    new ClothGrabber(canvas, renderer.camera, scene, modeler);
+    const recorder = new Recorder();
+    const timeline = new Timeline(
+      document.querySelector<HTMLDivElement>("#app")!,
+      scene,
+      modeler,
+      clock,
+      recorder,
+    );
+    new ExportMenu(
+      document.querySelector<HTMLDivElement>("#app")!,
+      scene,
+      recorder,
+      () => ({
+        scene,
+        physics: {
+          gravity: modeler.gravity,
+          substeps: modeler.substeps,
+          fixedDt: clock.fixedDt,
+        },
+        camera: {
+          p: renderer.camera.p,
+          target: renderer.camera.target,
+          fov: renderer.camera.fov,
+        },
+        light: { p: renderer.light.p },
+      }),
+    );
+
+    // ?diagnostics charts how the solver is doing
+    let diagnosticsPanel: DiagnosticsPanel | null = null;
+    if (params.has("diagnostics")) {
+      diagnosticsPanel = new DiagnosticsPanel(
+        document.querySelector<HTMLDivElement>("#app")!,
+      );
+      modeler.subscribe(diagnosticsPanel.push);
+    }
 
     const triangleCountEl = document.createElement("p");
     let triangleCount = 0;
@@ -76,12 +128,8 @@ const main = async () => {
     let lastTime = zero;
     const animate = (timestamp: number) => {
       const dt = (timestamp - lastTime) / 1e3;
-      modeler.step(
-        dt,
-        scene.objects[2] as Cloth,
-        scene.objects[1] as Sphere,
-        scene.objects[0] as Box,
-      );
+      timeline.tick(timestamp);
+      diagnosticsPanel?.draw();
       renderer.render(timestamp - zero, scene);
 
       let newTriangleCountNumber =
@@ -100,6 +148,7 @@ const main = async () => {
     requestAnimationFrame(animate);
   } catch (e) {
     console.error(e);
+    messageEl.innerText = String(e);
   }
 };
 
@@ -1,194 +1,1505 @@
-import { Vec3, Vec2 } from "gl-matrix";
-import { Box, Cloth, Sphere } from "./scene";
+import { Vec3, Quat } from "gl-matrix";
+import Scene, {
+  Cloth,
+  ClothMaterial,
+  ClothMaterials,
+  ConstraintKind,
+  ObjectKind,
+  ParticleObject,
+  Particles,
+  Rope,
+  RopeMaterial,
+  RopeMaterials,
+  SoftBody,
+  SoftBodyMaterial,
+  SoftBodyMaterials,
+  getCompliances,
+  getParticleObjectMass,
+  isParticleObject,
+  updateRopeMesh,
+} from "./scene";
+import { ClothState, copyClothVertex } from "./clothstate";
+import { ParticleState, ageParticles, emitParticles } from "./particles";
+import {
+  Collider,
+  Contact,
+  SweepHit,
+  collidePoint,
+  sweepPoint,
+  updateColliders,
+} from "./colliders";
+import { getPointVelocity, isRigidBody, stepRigidBodies } from "./rigidbodies";
+import SpatialHash from "./spatialhash";
+import {
+  PhysicsMaterial,
+  combineMaterials,
+  getPhysicsMaterial,
+} from "./physicsmaterials";
+import { ForceField, getFieldAcceleration, getWindVelocity } from "./forces";
+import { Snapshot, applySnapshot, captureSnapshot } from "./snapshot";
+import {
+  DiagnosticsListener,
+  Phase,
+  StepDiagnostics,
+  createPhaseTimes,
+  measureScene,
+} from "./diagnostics";
 
+// kg/m^3
+const airDensity = 1.2;
+
+const identity = Quat.create();
+const origin = new Vec3();
+
+// A cloth vertex held by the mouse, moved to target over the next step like
+// a pin. object indexes scene.objects.
+export interface Grab {
+  object: number;
+  vertex: number;
+  target: Vec3;
+}
+
+interface SelfCollisionState {
+  hash: SpatialHash;
+  indexData: Uint32Array;
+  // Triangles whose first vertex is vertex i are
+  // vertexTriangles[vertexTriangleStart[i]] up to
+  // vertexTriangles[vertexTriangleStart[i + 1]]
+  vertexTriangleStart: Int32Array;
+  vertexTriangles: Int32Array;
+  // Particles that can come within maxDist of vertex i this step are
+  // neighbors[neighborStart[i]] up to neighbors[neighborStart[i + 1]]
+  neighborStart: Int32Array;
+  neighbors: Int32Array;
+  vertexStamps: Int32Array;
+  stamp: number;
+}
+
+const readVertex = (buffer: Float32Array, i: number, out: Vec3) => {
+  out[0] = buffer[3 * i];
+  out[1] = buffer[3 * i + 1];
+  out[2] = buffer[3 * i + 2];
+  return out;
+};
+
+const getDistanceSq = (buffer: Float32Array, i: number, j: number) => {
+  const dx = buffer[3 * i] - buffer[3 * j];
+  const dy = buffer[3 * i + 1] - buffer[3 * j + 1];
+  const dz = buffer[3 * i + 2] - buffer[3 * j + 2];
+  return dx * dx + dy * dy + dz * dz;
+};
+
+// Squared distance from point to the closest point of triangle a, b, c, found
+// from the triangle's Voronoi region the point is in
+const getPointTriangleDistanceSq = (
+  buffer: Float32Array,
+  point: number,
+  a: number,
+  b: number,
+  c: number,
+) => {
+  const ax = buffer[3 * a],
+    ay = buffer[3 * a + 1],
+    az = buffer[3 * a + 2];
+  const abx = buffer[3 * b] - ax,
+    aby = buffer[3 * b + 1] - ay,
+    abz = buffer[3 * b + 2] - az;
+  const acx = buffer[3 * c] - ax,
+    acy = buffer[3 * c + 1] - ay,
+    acz = buffer[3 * c + 2] - az;
+  const apx = buffer[3 * point] - ax,
+    apy = buffer[3 * point + 1] - ay,
+    apz = buffer[3 * point + 2] - az;
+
+  const abAb = abx * abx + aby * aby + abz * abz;
+  const abAc = abx * acx + aby * acy + abz * acz;
+  const acAc = acx * acx + acy * acy + acz * acz;
+  const d1 = abx * apx + aby * apy + abz * apz;
+  const d2 = acx * apx + acy * apy + acz * apz;
+  // The same dot products from b and c
+  const d3 = d1 - abAb,
+    d4 = d2 - abAc;
+  const d5 = d1 - abAc,
+    d6 = d2 - acAc;
+
+  // The closest point is a + s * ab + t * ac
+  let s = 0;
+  let t = 0;
+  const va = d3 * d6 - d5 * d4;
+  const vb = d5 * d2 - d1 * d6;
+  const vc = d1 * d4 - d3 * d2;
+  if (d1 <= 0 && d2 <= 0) {
+    // Corner a
+  } else if (d3 >= 0 && d4 <= d3) {
+    s = 1;
+  } else if (d6 >= 0 && d5 <= d6) {
+    t = 1;
+  } else if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+    s = d1 / (d1 - d3);
+  } else if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+    t = d2 / (d2 - d6);
+  } else if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+    t = (d4 - d3) / (d4 - d3 + (d5 - d6));
+    s = 1 - t;
+  } else {
+    const sum = va + vb + vc;
+    s = vb / sum;
+    t = vc / sum;
+  }
+
+  const dx = apx - s * abx - t * acx,
+    dy = apy - s * aby - t * acy,
+    dz = apz - s * abz - t * acz;
+  return dx * dx + dy * dy + dz * dz;
+};
+
+// How far three coordinates moved since the last substep, added up
+const sumMoved = (
+  p: Float32Array,
+  lastP: Float32Array,
+  a: number,
+  b: number,
+  c: number,
+) => p[a] - lastP[a] + p[b] - lastP[b] + p[c] - lastP[c];
+
+const addScaled = (
+  buffer: Float32Array,
+  offset: number,
+  x: number,
+  y: number,
+  z: number,
+  scale: number,
+) => {
+  buffer[offset] += x * scale;
+  buffer[offset + 1] += y * scale;
+  buffer[offset + 2] += z * scale;
+};
+
+// Cloth state lives in flat typed arrays and every temporary in the loops
+// below is a reused scratch value, so stepping doesn't allocate per particle
 export default class Modeler {
-  private g = new Vec3(0, -9.8, 0);
+  private selfCollisionStates = new WeakMap<Cloth, SelfCollisionState>();
+
+  private scratch = Array.from({ length: 5 }, () => new Vec3());
+  // Of the scene's objects, moved along with them every substep
+  private colliders: Collider[] = [];
+  private contact: Contact = { normal: new Vec3(), depth: 0 };
+  private hit: SweepHit = { t: 0, normal: new Vec3() };
+  // Compliance / dt^2 per ConstraintKind
+  private alphas = new Float64Array(3);
+  // Gradient of a soft body's volume with respect to each particle
+  private volumeGradients = new Float32Array(0);
+  // Contact material of the cloth being handled with each collider
+  private contactMaterials: PhysicsMaterial[] = [];
+
+  // Cloth of a valid grab this step, and where the grabbed vertex starts the
+  // step and is this and last substep
+  private grabbed: Cloth | null = null;
+  private grabFrom = new Vec3();
+  private grabP = new Vec3();
+  private grabLastP = new Vec3();
+  // Shares cloth topology with the next snapshot
+  private lastSnapshot: Snapshot | null = null;
+
+  private listeners = new Set<DiagnosticsListener>();
+  private phaseTimes = createPhaseTimes();
+  // Collider contacts of the current substep
+  private contactCount = 0;
+  private maxPenetration = 0;
+
+  substeps = 10;
+  // m/s^2
+  gravity = new Vec3(0, -9.8, 0);
+  // Simulated seconds since the start
+  time = 0;
+  grab: Grab | null = null;
+
+  step = async (dt: number, scene: Scene) => {
+    const bodies = scene.objects.filter(isRigidBody);
+    const particleObjects = scene.objects.filter(isParticleObject);
+    const particleSystems = scene.objects.filter(
+      (obj): obj is Particles =>
+        obj.kind === ObjectKind.Particles && !!obj.state,
+    );
+
+    const subDt = dt / this.substeps;
+    this.phaseTimes = createPhaseTimes();
+
+    for (const obj of particleObjects) this.updateInvMasses(obj);
+
+    const grabbed = (this.grabbed = this.getGrabbedCloth(scene));
+    if (grabbed) {
+      const { positions, invMasses } = grabbed.state!;
+      readVertex(positions, this.grab!.vertex, this.grabFrom).add(grabbed.p);
+      invMasses[this.grab!.vertex] = 0;
+    }
+
+    this.colliders = updateColliders(scene, this.colliders);
+
+    let start = performance.now();
+    for (const obj of particleObjects) {
+      if (obj.kind === ObjectKind.Cloth) this.findSelfCollisionNeighbors(obj);
+    }
+    this.lap("handleSelfCollisions", start);
+
+    for (let substep = 0; substep < this.substeps; substep++) {
+      // Spread the grab's movement over the substeps, so the vertex keeps a
+      // steady velocity when it's let go
+      if (grabbed) {
+        const { target } = this.grab!;
+        Vec3.lerp(
+          this.grabLastP,
+          this.grabFrom,
+          target,
+          substep / this.substeps,
+        );
+        Vec3.lerp(
+          this.grabP,
+          this.grabFrom,
+          target,
+          (substep + 1) / this.substeps,
+        );
+      }
+
+      start = performance.now();
+      const bodyContacts = stepRigidBodies(
+        bodies,
+        this.colliders,
+        this.gravity,
+        subDt,
+      );
+      start = this.lap("stepRigidBodies", start);
+
+      this.contactCount = bodyContacts.length;
+      this.maxPenetration = 0;
+      for (const { depth } of bodyContacts) {
+        this.maxPenetration = Math.max(this.maxPenetration, depth);
+      }
+
+      // Where the rigid bodies moved to, for the particles and the next
+      // substep
+      const colliders = updateColliders(scene, this.colliders);
+      this.colliders = colliders;
+      for (const obj of particleObjects) {
+        this.updatePositions(obj, subDt, scene.forces);
+        start = this.lap("updatePositions", start);
+        this.solveConstraints(obj, subDt, scene);
+        start = this.lap("solveConstraints", start);
+        if (obj.kind === ObjectKind.Cloth) {
+          this.handleSelfCollisions(obj);
+          start = this.lap("handleSelfCollisions", start);
+        }
+        this.handleCollisions(obj, colliders, subDt);
+        start = this.lap("handleCollisions", start);
+      }
+      for (const particles of particleSystems) {
+        this.stepParticles(particles, scene, colliders, subDt);
+        start = this.lap("stepParticles", start);
+      }
 
-  step = async (dt: number, cloth: Cloth, sphere: Sphere, ground: Box) => {
-    const restD = new Vec2(cloth.width, cloth.length).divide(cloth.divisions);
-    const iterations = 10;
-    const subDt = dt / iterations;
+      this.time += subDt;
+    }
 
-    for (let iteration = 0; iteration < iterations; iteration++) {
-      this.updatePositions(cloth, subDt);
-      this.solveConstraints(cloth, restD);
-      this.handleCollisions(cloth, sphere, ground);
+    for (const obj of particleObjects) {
+      if (obj.kind === ObjectKind.Rope) {
+        const start = performance.now();
+        updateRopeMesh(obj);
+        this.lap("updateNormals", start);
+        continue;
+      }
+
+      if (obj.kind === ObjectKind.Cloth) this.tearCloth(obj);
+      this.updateVertexBuffer(obj);
+      const start = performance.now();
+      this.updateNormals(obj);
+      this.lap("updateNormals", start);
     }
 
-    this.updateVertexBuffer(cloth);
-    this.updateNormals(cloth);
+    if (this.listeners.size > 0) this.report(scene, subDt);
   };
 
-  private updatePositions(cloth: Cloth, dt: number) {
-    for (const vertex of cloth.vertices!) {
-      const temp = Vec3.clone(vertex.p);
-
-      let newP = Vec3.clone(vertex.p);
-      newP.scale(2);
-      newP.sub(vertex.lastP) as Vec3;
-      let disp = Vec3.scale(new Vec3(), this.g, dt * dt);
-      newP.add(disp);
-
-      vertex.p = newP;
-
-      vertex.lastP = temp;
-    }
-  }
-
-  private solveConstraints(cloth: Cloth, restD: Vec2) {
-    const vXCount = cloth.divisions.x + 1;
-    const vZCount = cloth.divisions.y + 1;
-
-    for (let i = 0; i < cloth.vertices!.length; i++) {
-      const vXI = i % vXCount;
-      const vZI = Math.floor(i / vXCount);
-      const vertex = cloth.vertices![i];
-
-      const neighbors = [
-        vZI > 0 ? cloth.vertices![(vZI - 1) * vXCount + vXI] : null, // top
-        vXI < vXCount - 1 ? cloth.vertices![vZI * vXCount + vXI + 1] : null, // right
-        vZI < vZCount - 1 ? cloth.vertices![(vZI + 1) * vXCount + vXI] : null, // bottom
-        vXI > 0 ? cloth.vertices![vZI * vXCount + vXI - 1] : null, // left
-        vXI < vXCount - 2 ? cloth.vertices![vZI * vXCount + vXI + 2] : null, // bendy double
-        vZI < vZCount - 2 ? cloth.vertices![(vZI + 2) * vXCount + vXI] : null, //bendy double
-
-        vZI > 0 && vXI > 0
-          ? cloth.vertices![(vZI - 1) * vXCount + vXI - 1]
-          : null, // top-left
-        vZI > 0 && vXI < vXCount - 1
-          ? cloth.vertices![(vZI - 1) * vXCount + vXI + 1]
-          : null, // top-right
-        vZI < vZCount - 1 && vXI > 0
-          ? cloth.vertices![(vZI + 1) * vXCount + vXI - 1]
-          : null, // bottom-left
-        vZI < vZCount - 1 && vXI < vXCount - 1
-          ? cloth.vertices![(vZI + 1) * vXCount + vXI + 1]
-          : null, // bottom-right
-      ];
-
-      neighbors.forEach((neighborVertex, nI) => {
-        if (neighborVertex) {
-          let restLength;
-          let relaxFactor;
-          if (nI < 4) {
-            restLength = nI % 2 === 0 ? restD.x : restD.y;
-            relaxFactor = 0.2;
-          } else if (nI < 6) {
-            restLength = nI % 2 === 0 ? restD.x * 2 : restD.y * 2;
-            relaxFactor = 0.2;
-          } else {
-            restLength = Math.sqrt(restD.x * restD.x + restD.y * restD.y);
-            relaxFactor = 0.1;
-          }
+  // Calls listener with the diagnostics of every step from now on, returns a
+  // function that unsubscribes it again
+  subscribe = (listener: DiagnosticsListener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  takeSnapshot = (scene: Scene) => {
+    this.lastSnapshot = captureSnapshot(scene, this.time, this.lastSnapshot);
+    return this.lastSnapshot;
+  };
+
+  restore = (scene: Scene, snapshot: Snapshot) => {
+    applySnapshot(scene, snapshot);
+    this.time = snapshot.time;
+  };
+
+  // Adds the time since start to phase and returns the current time
+  private lap(phase: Phase, start: number) {
+    const now = performance.now();
+    this.phaseTimes[phase] += now - start;
+    return now;
+  }
+
+  private report(scene: Scene, dt: number) {
+    const diagnostics: StepDiagnostics = {
+      time: this.time,
+      kineticEnergy: 0,
+      potentialEnergy: 0,
+      elasticEnergy: 0,
+      maxStrain: 0,
+      averageStrain: 0,
+      contacts: this.contactCount,
+      maxPenetration: this.maxPenetration,
+      phaseTimes: this.phaseTimes,
+    };
+    measureScene(scene, this.gravity, dt, diagnostics);
+    for (const listener of this.listeners) listener(diagnostics);
+  }
+
+  private getGrabbedCloth(scene: Scene) {
+    if (!this.grab) return null;
+
+    const obj = scene.objects[this.grab.object];
+    if (obj?.kind !== ObjectKind.Cloth || !obj.state) return null;
+    if (this.grab.vertex >= obj.state.vertexCount) return null;
+    return obj;
+  }
+
+  private updateInvMasses(obj: ParticleObject) {
+    const state = obj.state!;
+    const vertexMass = getParticleObjectMass(obj) / state.vertexCount;
+    state.invMasses.fill(1 / vertexMass, 0, state.vertexCount);
+
+    for (const { vertex } of obj.pins ?? []) state.invMasses[vertex] = 0;
+    for (const { vertex } of obj.attachments ?? []) {
+      state.invMasses[vertex] = 0;
+    }
+  }
+
+  private updatePositions(
+    obj: ParticleObject,
+    dt: number,
+    forces: ForceField[],
+  ) {
+    this.applyForces(obj, dt, forces);
+
+    const state = obj.state!;
+    const { positions, prevPositions, accelerations, invMasses } = state;
+    const dtSq = dt * dt;
+
+    for (let i = 0; i < state.vertexCount; i++) {
+      if (invMasses[i] === 0) continue;
+
+      for (let axis = 0; axis < 3; axis++) {
+        const k = 3 * i + axis;
+        const p = positions[k];
+        positions[k] =
+          2 * p -
+          prevPositions[k] +
+          (this.gravity[axis] + accelerations[k]) * dtSq;
+        prevPositions[k] = p;
+      }
+    }
+  }
+
+  // Accumulates each vertex's external acceleration other than gravity
+  private applyForces(obj: ParticleObject, dt: number, forces: ForceField[]) {
+    const state = obj.state!;
+    const { positions, prevPositions, accelerations } = state;
+    const [gP, v, a] = this.scratch;
+
+    for (let i = 0; i < state.vertexCount; i++) {
+      for (let axis = 0; axis < 3; axis++) {
+        const k = 3 * i + axis;
+        gP[axis] = obj.p[axis] + positions[k];
+        v[axis] = (positions[k] - prevPositions[k]) / dt;
+      }
+      getFieldAcceleration(forces, gP, v, a);
+      accelerations[3 * i] = a[0];
+      accelerations[3 * i + 1] = a[1];
+      accelerations[3 * i + 2] = a[2];
+    }
+
+    if (obj.kind === ObjectKind.Rope) {
+      this.applyRopeDrag(obj, dt, forces);
+    } else {
+      this.applyAerodynamics(obj, dt, forces);
+    }
+  }
+
+  // Drag and lift of every triangle moving through the air, split evenly
+  // between its vertices
+  private applyAerodynamics(
+    obj: Cloth | SoftBody,
+    dt: number,
+    forces: ForceField[],
+  ) {
+    const material: ClothMaterial | SoftBodyMaterial =
+      obj.kind === ObjectKind.Cloth
+        ? (obj.material ?? ClothMaterials.cotton)
+        : (obj.material ?? SoftBodyMaterials.jelly);
+    const dragCoefficient = material.dragCoefficient ?? 1;
+    const liftCoefficient = material.liftCoefficient ?? 0.5;
+    if (dragCoefficient === 0 && liftCoefficient === 0) return;
+
+    const { positions: p, prevPositions: lastP } = obj.state!;
+    const { accelerations, invMasses } = obj.state!;
+    const indexData = obj.data!.indexData;
+    const [center, wind] = this.scratch;
+
+    for (let i = 0; i < indexData.length; i += 3) {
+      const a = 3 * indexData[i];
+      const b = 3 * indexData[i + 1];
+      const c = 3 * indexData[i + 2];
+
+      for (let axis = 0; axis < 3; axis++) {
+        center[axis] =
+          (p[a + axis] + p[b + axis] + p[c + axis]) / 3 + obj.p[axis];
+      }
+      getWindVelocity(forces, center, this.time, wind);
+
+      // Wind relative to the triangle's average velocity
+      const velocityScale = 1 / (3 * dt);
+      let vx = wind[0] - sumMoved(p, lastP, a, b, c) * velocityScale;
+      let vy =
+        wind[1] - sumMoved(p, lastP, a + 1, b + 1, c + 1) * velocityScale;
+      let vz =
+        wind[2] - sumMoved(p, lastP, a + 2, b + 2, c + 2) * velocityScale;
+
+      const speed = Math.sqrt(vx * vx + vy * vy + vz * vz);
+      if (speed === 0) continue;
+      vx /= speed;
+      vy /= speed;
+      vz /= speed;
+
+      const e1x = p[b] - p[a],
+        e1y = p[b + 1] - p[a + 1],
+        e1z = p[b + 2] - p[a + 2];
+      const e2x = p[c] - p[a],
+        e2y = p[c + 1] - p[a + 1],
+        e2z = p[c + 2] - p[a + 2];
+      let nx = e1y * e2z - e1z * e2y,
+        ny = e1z * e2x - e1x * e2z,
+        nz = e1x * e2y - e1y * e2x;
+      const nLength = Math.sqrt(nx * nx + ny * ny + nz * nz);
+      if (nLength === 0) continue;
+      const area = nLength / 2;
+
+      // Face the normal downwind, lift acts along the part of it
+      // perpendicular to the flow
+      let cosTheta = (nx * vx + ny * vy + nz * vz) / nLength;
+      const side = cosTheta < 0 ? -1 / nLength : 1 / nLength;
+      nx *= side;
+      ny *= side;
+      nz *= side;
+      cosTheta = Math.abs(cosTheta);
+
+      const q = 0.5 * airDensity * speed * speed * area * cosTheta;
+      const drag = (q * dragCoefficient) / 3;
+      const lift = (q * liftCoefficient) / 3;
+      const fx = vx * drag + (nx - vx * cosTheta) * lift,
+        fy = vy * drag + (ny - vy * cosTheta) * lift,
+        fz = vz * drag + (nz - vz * cosTheta) * lift;
+
+      addScaled(accelerations, a, fx, fy, fz, invMasses[a / 3]);
+      addScaled(accelerations, b, fx, fy, fz, invMasses[b / 3]);
+      addScaled(accelerations, c, fx, fy, fz, invMasses[c / 3]);
+    }
+  }
+
+  // Drag of every segment as a cylinder radius thick, from the wind across
+  // it, split evenly between its ends
+  private applyRopeDrag(rope: Rope, dt: number, forces: ForceField[]) {
+    const material: RopeMaterial = rope.material ?? RopeMaterials.rope;
+    const dragCoefficient = material.dragCoefficient ?? 1.2;
+    if (dragCoefficient === 0) return;
+
+    const { positions: p, prevPositions: lastP } = rope.state!;
+    const { accelerations, invMasses } = rope.state!;
+    const { constraintCount, constraintVertices, constraintKinds } =
+      rope.state!;
+    const [center, wind] = this.scratch;
+
+    for (let i = 0; i < constraintCount; i++) {
+      if (constraintKinds[i] !== ConstraintKind.Stretch) continue;
+      const a = 3 * constraintVertices[2 * i];
+      const b = 3 * constraintVertices[2 * i + 1];
+
+      for (let axis = 0; axis < 3; axis++) {
+        center[axis] = (p[a + axis] + p[b + axis]) / 2 + rope.p[axis];
+      }
+      getWindVelocity(forces, center, this.time, wind);
+
+      // Wind relative to the segment's average velocity
+      const velocityScale = 1 / (2 * dt);
+      let vx = wind[0] - (p[a] - lastP[a] + p[b] - lastP[b]) * velocityScale;
+      let vy =
+        wind[1] -
+        (p[a + 1] - lastP[a + 1] + p[b + 1] - lastP[b + 1]) * velocityScale;
+      let vz =
+        wind[2] -
+        (p[a + 2] - lastP[a + 2] + p[b + 2] - lastP[b + 2]) * velocityScale;
+
+      const dx = p[b] - p[a],
+        dy = p[b + 1] - p[a + 1],
+        dz = p[b + 2] - p[a + 2];
+      const lengthSq = dx * dx + dy * dy + dz * dz;
+      if (lengthSq === 0) continue;
+
+      // Wind along the segment doesn't push it
+      const along = (vx * dx + vy * dy + vz * dz) / lengthSq;
+      vx -= dx * along;
+      vy -= dy * along;
+      vz -= dz * along;
+
+      const speed = Math.sqrt(vx * vx + vy * vy + vz * vz);
+      const area = 2 * rope.radius * Math.sqrt(lengthSq);
+      const drag = (0.5 * airDensity * dragCoefficient * area * speed) / 2;
+      addScaled(accelerations, a, vx, vy, vz, drag * invMasses[a / 3]);
+      addScaled(accelerations, b, vx, vy, vz, drag * invMasses[b / 3]);
+    }
+  }
+
+  private solvePins(obj: ParticleObject, scene: Scene) {
+    const { positions, prevPositions } = obj.state!;
+
+    for (const pin of obj.pins ?? []) {
+      const k = 3 * pin.vertex;
+      pin.p ??= readVertex(positions, pin.vertex, new Vec3()).add(obj.p);
+
+      for (let axis = 0; axis < 3; axis++) {
+        prevPositions[k + axis] = positions[k + axis];
+        positions[k + axis] = pin.p[axis] - obj.p[axis];
+      }
+    }
+
+    const worldP = this.scratch[0];
+    for (const attachment of obj.attachments ?? []) {
+      const k = 3 * attachment.vertex;
+      const target = scene.objects[attachment.object];
+      const rotation = target.rotation ?? identity;
+
+      if (!attachment.offset) {
+        const offset = readVertex(positions, attachment.vertex, new Vec3())
+          .add(obj.p)
+          .sub(target.p);
+        const inverseRotation = Quat.conjugate(Quat.create(), rotation);
+        attachment.offset = Vec3.transformQuat(
+          offset,
+          offset,
+          inverseRotation,
+        ) as Vec3;
+      }
+
+      Vec3.transformQuat(worldP, attachment.offset, rotation);
+      worldP.add(target.p);
+
+      for (let axis = 0; axis < 3; axis++) {
+        prevPositions[k + axis] = positions[k + axis];
+        positions[k + axis] = worldP[axis] - obj.p[axis];
+      }
+    }
+
+    if (obj === this.grabbed) {
+      const k = 3 * this.grab!.vertex;
+      for (let axis = 0; axis < 3; axis++) {
+        prevPositions[k + axis] = this.grabLastP[axis] - obj.p[axis];
+        positions[k + axis] = this.grabP[axis] - obj.p[axis];
+      }
+    }
+  }
+
+  // XPBD, stiffness comes from the material's compliance instead of the
+  // number of substeps. With a single iteration per substep the Lagrange
+  // multipliers start at zero every time, so only their update is needed.
+  private solveConstraints(obj: ParticleObject, dt: number, scene: Scene) {
+    this.solvePins(obj, scene);
+
+    const state = obj.state!;
+    const { positions: p, invMasses, constraintVertices } = state;
+    const { constraintKinds, restLengths } = state;
+
+    const alphas = getCompliances(obj, this.alphas);
+    for (let kind = 0; kind < alphas.length; kind++) alphas[kind] /= dt * dt;
+
+    for (let i = 0; i < state.constraintCount; i++) {
+      const a = constraintVertices[2 * i];
+      const b = constraintVertices[2 * i + 1];
+      const invMassA = invMasses[a];
+      const invMassB = invMasses[b];
+      const invMassSum = invMassA + invMassB + alphas[constraintKinds[i]];
+      if (invMassSum === 0) continue;
+
+      const dx = p[3 * a] - p[3 * b],
+        dy = p[3 * a + 1] - p[3 * b + 1],
+        dz = p[3 * a + 2] - p[3 * b + 2];
+      const currentLength = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (currentLength === 0) continue;
+
+      const c = currentLength - restLengths[i];
+      const s = -c / invMassSum / currentLength;
+
+      p[3 * a] += dx * s * invMassA;
+      p[3 * a + 1] += dy * s * invMassA;
+      p[3 * a + 2] += dz * s * invMassA;
+      p[3 * b] -= dx * s * invMassB;
+      p[3 * b + 1] -= dy * s * invMassB;
+      p[3 * b + 2] -= dz * s * invMassB;
+    }
+
+    if (obj.kind === ObjectKind.SoftBody) this.solveVolume(obj, dt);
+  }
+
+  // A single XPBD constraint on the volume enclosed by all of a soft body's
+  // triangles, moving every particle along the volume's gradient
+  private solveVolume(soft: SoftBody, dt: number) {
+    const { vertexCount, positions: p, invMasses } = soft.state!;
+    const indexData = soft.data!.indexData;
+    const material = soft.material ?? SoftBodyMaterials.jelly;
+
+    if (this.volumeGradients.length < 3 * vertexCount) {
+      this.volumeGradients = new Float32Array(3 * vertexCount);
+    }
+    const gradients = this.volumeGradients;
+    gradients.fill(0, 0, 3 * vertexCount);
+
+    let volume = 0;
+    for (let i = 0; i < indexData.length; i += 3) {
+      const a = 3 * indexData[i];
+      const b = 3 * indexData[i + 1];
+      const c = 3 * indexData[i + 2];
+
+      // The volume of the tetrahedron from the origin is a . (b x c) / 6,
+      // its gradient at each corner is the cross product of the other two
+      const bcx = p[b + 1] * p[c + 2] - p[b + 2] * p[c + 1],
+        bcy = p[b + 2] * p[c] - p[b] * p[c + 2],
+        bcz = p[b] * p[c + 1] - p[b + 1] * p[c];
+      volume += p[a] * bcx + p[a + 1] * bcy + p[a + 2] * bcz;
+
+      addScaled(gradients, a, bcx, bcy, bcz, 1 / 6);
+      addScaled(
+        gradients,
+        b,
+        p[c + 1] * p[a + 2] - p[c + 2] * p[a + 1],
+        p[c + 2] * p[a] - p[c] * p[a + 2],
+        p[c] * p[a + 1] - p[c + 1] * p[a],
+        1 / 6,
+      );
+      addScaled(
+        gradients,
+        c,
+        p[a + 1] * p[b + 2] - p[a + 2] * p[b + 1],
+        p[a + 2] * p[b] - p[a] * p[b + 2],
+        p[a] * p[b + 1] - p[a + 1] * p[b],
+        1 / 6,
+      );
+    }
+    volume /= 6;
+
+    let weightSum = material.volumeCompliance / (dt * dt);
+    for (let i = 0; i < vertexCount; i++) {
+      weightSum +=
+        invMasses[i] *
+        (gradients[3 * i] ** 2 +
+          gradients[3 * i + 1] ** 2 +
+          gradients[3 * i + 2] ** 2);
+    }
+    if (weightSum === 0) return;
 
-          const delta = Vec3.subtract(
-            new Vec3(),
-            neighborVertex.p,
-            vertex.p,
-          ) as Vec3;
-          const currentLength = delta.magnitude;
-          const correction = delta.scale(
-            ((currentLength - restLength) / currentLength) * relaxFactor,
+    const c = volume - soft.restVolume! * (soft.pressure ?? 1);
+    const s = -c / weightSum;
+    for (let i = 0; i < vertexCount; i++) {
+      addScaled(
+        p,
+        3 * i,
+        gradients[3 * i],
+        gradients[3 * i + 1],
+        gradients[3 * i + 2],
+        s * invMasses[i],
+      );
+    }
+  }
+
+  private getSelfCollisionState(cloth: Cloth) {
+    const vertexCount = cloth.state!.vertexCount;
+    const indexData = cloth.data!.indexData;
+
+    const cached = this.selfCollisionStates.get(cloth);
+    if (
+      cached &&
+      cached.indexData === indexData &&
+      cached.vertexStamps.length === vertexCount
+    ) {
+      return cached;
+    }
+
+    const triangleCount = indexData.length / 3;
+    const vertexTriangleStart = new Int32Array(vertexCount + 1);
+    for (let i = 0; i < triangleCount; i++) {
+      vertexTriangleStart[indexData[3 * i]]++;
+    }
+    for (let i = 0, start = 0; i <= vertexCount; i++) {
+      const count = vertexTriangleStart[i];
+      vertexTriangleStart[i] = start;
+      start += count;
+    }
+
+    const vertexTriangles = new Int32Array(triangleCount);
+    const fill = vertexTriangleStart.slice();
+    for (let i = 0; i < triangleCount; i++) {
+      vertexTriangles[fill[indexData[3 * i]]++] = i;
+    }
+
+    const state: SelfCollisionState = {
+      // The spacing is set to the search distance of every step
+      hash: new SpatialHash(1, vertexCount),
+      indexData,
+      vertexTriangleStart,
+      vertexTriangles,
+      neighborStart: new Int32Array(vertexCount + 1),
+      neighbors: new Int32Array(16 * vertexCount),
+      vertexStamps: new Int32Array(vertexCount),
+      stamp: 0,
+    };
+    this.selfCollisionStates.set(cloth, state);
+    return state;
+  }
+
+  // Particles are kept thickness apart, and only checked against those within
+  // maxDist. Grids use their cells, meshes cells of their average edge length,
+  // so triangles far larger than the rest can miss contacts.
+  private getSelfCollisionSpacing(cloth: Cloth) {
+    let restDX: number;
+    let restDZ: number;
+    if (cloth.shape) {
+      const { constraintCount, constraintKinds, restLengths } = cloth.state!;
+      let sum = 0;
+      let count = 0;
+      for (let i = 0; i < constraintCount; i++) {
+        if (constraintKinds[i] !== ConstraintKind.Stretch) continue;
+        sum += restLengths[i];
+        count++;
+      }
+      restDX = restDZ = count > 0 ? sum / count : 0;
+    } else {
+      restDX = cloth.width! / cloth.divisions!.x;
+      restDZ = cloth.length! / cloth.divisions!.y;
+    }
+
+    const thickness = 0.5 * Math.min(restDX, restDZ);
+    return { thickness, maxDist: Math.hypot(restDX, restDZ) + thickness };
+  }
+
+  // Finds the particles each particle can come within maxDist of this step, so
+  // the substeps only check those. Two particles can get closer by as much as
+  // both of them move relative to the cloth as a whole, taken to be what they
+  // moved last substep for every substep of this one.
+  private findSelfCollisionNeighbors(cloth: Cloth) {
+    if (cloth.selfCollision === false) return;
+
+    const { maxDist } = this.getSelfCollisionSpacing(cloth);
+    const clothState = cloth.state!;
+    const { vertexCount, positions: p, prevPositions: lastP } = clothState;
+    const state = this.getSelfCollisionState(cloth);
+    const { hash, neighborStart, vertexStamps } = state;
+
+    const mean = this.scratch[1].fill(0);
+    for (let i = 0; i < vertexCount; i++) {
+      for (let axis = 0; axis < 3; axis++) {
+        mean[axis] += p[3 * i + axis] - lastP[3 * i + axis];
+      }
+    }
+    mean.scale(1 / Math.max(vertexCount, 1));
+
+    let maxMovedSq = 0;
+    for (let i = 0; i < vertexCount; i++) {
+      const dx = p[3 * i] - lastP[3 * i] - mean[0];
+      const dy = p[3 * i + 1] - lastP[3 * i + 1] - mean[1];
+      const dz = p[3 * i + 2] - lastP[3 * i + 2] - mean[2];
+      maxMovedSq = Math.max(maxMovedSq, dx * dx + dy * dy + dz * dz);
+    }
+    let travel = Math.sqrt(maxMovedSq) * this.substeps;
+    // The grabbed vertex is moved to the grab target over the step
+    if (this.grabbed === cloth) {
+      const target = this.scratch[2];
+      const grabbedP = readVertex(p, this.grab!.vertex, this.scratch[3]);
+      Vec3.subtract(target, this.grab!.target, cloth.p);
+      travel += Vec3.distance(target, grabbedP);
+    }
+    const searchDist = maxDist + 2 * travel;
+
+    // Cells as big as the search distance, so a search only looks at the cell
+    // a particle is in and the ones next to it
+    hash.spacing = searchDist;
+    hash.create(p, vertexCount);
+
+    const queryP = this.scratch[0];
+    const searchDistSq = searchDist * searchDist;
+    let count = 0;
+    for (let i = 0; i < vertexCount; i++) {
+      neighborStart[i] = count;
+      hash.query(readVertex(p, i, queryP), searchDist);
+      const stamp = ++state.stamp;
+      vertexStamps[i] = stamp;
+
+      for (let q = 0; q < hash.querySize; q++) {
+        const j = hash.queryIds[q];
+        if (vertexStamps[j] === stamp) continue;
+        vertexStamps[j] = stamp;
+        if (getDistanceSq(p, i, j) > searchDistSq) continue;
+
+        if (count === state.neighbors.length) {
+          const grown = new Int32Array(2 * count);
+          grown.set(state.neighbors);
+          state.neighbors = grown;
+        }
+        state.neighbors[count++] = j;
+      }
+    }
+    neighborStart[vertexCount] = count;
+  }
+
+  // Keeps particles thickness apart from each other and from triangles they
+  // don't belong to, on the side of the triangle they were on last substep
+  private handleSelfCollisions(cloth: Cloth) {
+    if (cloth.selfCollision === false) return;
+
+    const { thickness, maxDist } = this.getSelfCollisionSpacing(cloth);
+
+    const clothState = cloth.state!;
+    const { positions: p, restPositions, invMasses } = clothState;
+    const indexData = cloth.data!.indexData;
+    const state = this.getSelfCollisionState(cloth);
+    const { neighborStart, neighbors } = state;
+    const { vertexTriangleStart, vertexTriangles } = state;
+    const maxDistSq = maxDist * maxDist;
+    const thicknessSq = thickness * thickness;
+
+    for (let i = 0; i < clothState.vertexCount; i++) {
+      const neighborsEnd = neighborStart[i + 1];
+      for (let n = neighborStart[i]; n < neighborsEnd; n++) {
+        const j = neighbors[n];
+        const distSq = getDistanceSq(p, i, j);
+        if (distSq > maxDistSq) continue;
+
+        if (j > i && distSq < thicknessSq) {
+          // Particles that start out closer, like torn copies of a vertex,
+          // are only kept from getting closer than that
+          const minDist = Math.min(
+            thickness,
+            Math.sqrt(getDistanceSq(restPositions, i, j)),
           );
-          vertex.p.add(correction);
-          neighborVertex.p.subtract(correction);
+          const invMassSum = invMasses[i] + invMasses[j];
+          if (invMassSum > 0 && distSq > 0 && distSq < minDist * minDist) {
+            const dist = Math.sqrt(distSq);
+            const s = (minDist - dist) / dist / invMassSum;
+            for (let axis = 0; axis < 3; axis++) {
+              const delta = (p[3 * i + axis] - p[3 * j + axis]) * s;
+              p[3 * i + axis] += delta * invMasses[i];
+              p[3 * j + axis] -= delta * invMasses[j];
+            }
+          }
         }
-      });
+
+        if (invMasses[i] === 0) continue;
+
+        // A triangle within thickness has all its vertices within maxDist, so
+        // it's enough to reach it through its first one
+        const trianglesEnd = vertexTriangleStart[j + 1];
+        for (let k = vertexTriangleStart[j]; k < trianglesEnd; k++) {
+          const triangle = vertexTriangles[k];
+          const iA = indexData[triangle * 3];
+          const iB = indexData[triangle * 3 + 1];
+          const iC = indexData[triangle * 3 + 2];
+          if (iA === i || iB === i || iC === i) continue;
+
+          this.solvePointTriangle(clothState, i, iA, iB, iC, thickness);
+        }
+      }
     }
   }
 
-  private handleCollisions(cloth: Cloth, sphere: Sphere, ground: Box) {
-    const mu = 0.01;
-    const cr = 0.2;
+  // Scalar math, this runs for every nearby triangle of every particle
+  private solvePointTriangle(
+    state: ClothState,
+    point: number,
+    a: number,
+    b: number,
+    c: number,
+    thickness: number,
+  ) {
+    const { positions: p, prevPositions: lastP, invMasses } = state;
+    const pI = 3 * point,
+      aI = 3 * a,
+      bI = 3 * b,
+      cI = 3 * c;
+
+    const px = p[pI],
+      py = p[pI + 1],
+      pz = p[pI + 2];
+    const ax = p[aI],
+      ay = p[aI + 1],
+      az = p[aI + 2];
+    const bx = p[bI],
+      by = p[bI + 1],
+      bz = p[bI + 2];
+    const cx = p[cI],
+      cy = p[cI + 1],
+      cz = p[cI + 2];
+
+    // Most nearby triangles are nowhere near the point, this rules them out
+    // before the normal is worked out
+    if (
+      px < Math.min(ax, bx, cx) - thickness ||
+      px > Math.max(ax, bx, cx) + thickness ||
+      py < Math.min(ay, by, cy) - thickness ||
+      py > Math.max(ay, by, cy) + thickness ||
+      pz < Math.min(az, bz, cz) - thickness ||
+      pz > Math.max(az, bz, cz) + thickness
+    ) {
+      return;
+    }
+
+    const e1x = bx - ax,
+      e1y = by - ay,
+      e1z = bz - az;
+    const e2x = cx - ax,
+      e2y = cy - ay,
+      e2z = cz - az;
+    let nx = e1y * e2z - e1z * e2y,
+      ny = e1z * e2x - e1x * e2z,
+      nz = e1x * e2y - e1y * e2x;
+    const nLength = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    if (nLength === 0) return;
+    nx /= nLength;
+    ny /= nLength;
+    nz /= nLength;
 
-    for (const vertex of cloth.vertices!) {
-      const gVertexP = Vec3.add(new Vec3(), cloth.p, vertex.p) as Vec3;
+    const apx = px - ax,
+      apy = py - ay,
+      apz = pz - az;
+    const d = apx * nx + apy * ny + apz * nz;
+    if (d >= thickness || d <= -thickness) return;
 
-      const distFromSphere = Vec3.distance(gVertexP, sphere.p) - sphere.radius;
-      if (distFromSphere <= 0.1) {
-        const dir = (
-          Vec3.subtract(new Vec3(), gVertexP, sphere.p) as Vec3
-        ).normalize();
-        const penetrationDepth = sphere.radius + 0.1 - distFromSphere;
-        const correction = dir.scale(penetrationDepth * 0.004);
-        vertex.p.add(correction);
-        vertex.lastP.add(correction.scale(0.5));
+    // Points right at a corner, like the two halves of a torn vertex, are
+    // left to the particle-particle test
+    const thicknessSq = thickness * thickness;
+    if (
+      getDistanceSq(p, point, a) < thicknessSq ||
+      getDistanceSq(p, point, b) < thicknessSq ||
+      getDistanceSq(p, point, c) < thicknessSq
+    ) {
+      return;
+    }
+
+    // Barycentric coordinates of the point projected onto the triangle
+    const d00 = e1x * e1x + e1y * e1y + e1z * e1z;
+    const d01 = e1x * e2x + e1y * e2y + e1z * e2z;
+    const d11 = e2x * e2x + e2y * e2y + e2z * e2z;
+    const d20 = apx * e1x + apy * e1y + apz * e1z;
+    const d21 = apx * e2x + apy * e2y + apz * e2z;
+    const denom = d00 * d11 - d01 * d01;
+    const v = (d11 * d20 - d01 * d21) / denom;
+    const w = (d00 * d21 - d01 * d20) / denom;
+    const u = 1 - v - w;
+    if (u < 0 || v < 0 || w < 0) return;
+
+    // Parts of a mesh that start out closer, like a lid resting on a pot, are
+    // only kept from getting closer than that
+    let minDist = thickness;
+    const restDistSq = getPointTriangleDistanceSq(
+      state.restPositions,
+      point,
+      a,
+      b,
+      c,
+    );
+    if (restDistSq < thicknessSq) minDist = Math.sqrt(restDistSq);
+
+    // Which side the point came from
+    const lax = lastP[aI],
+      lay = lastP[aI + 1],
+      laz = lastP[aI + 2];
+    const l1x = lastP[bI] - lax,
+      l1y = lastP[bI + 1] - lay,
+      l1z = lastP[bI + 2] - laz;
+    const l2x = lastP[cI] - lax,
+      l2y = lastP[cI + 1] - lay,
+      l2z = lastP[cI + 2] - laz;
+    const lastD =
+      (lastP[pI] - lax) * (l1y * l2z - l1z * l2y) +
+      (lastP[pI + 1] - lay) * (l1z * l2x - l1x * l2z) +
+      (lastP[pI + 2] - laz) * (l1x * l2y - l1y * l2x);
+    const side = lastD < 0 ? -1 : 1;
+
+    const sideDist = side * d;
+    if (sideDist >= minDist) return;
+
+    const invMassSum =
+      invMasses[point] +
+      u * u * invMasses[a] +
+      v * v * invMasses[b] +
+      w * w * invMasses[c];
+    if (invMassSum === 0) return;
+
+    const dp = (side * (minDist - sideDist)) / invMassSum;
+    const pointDp = dp * invMasses[point];
+    const aDp = -dp * u * invMasses[a];
+    const bDp = -dp * v * invMasses[b];
+    const cDp = -dp * w * invMasses[c];
+    p[pI] += nx * pointDp;
+    p[pI + 1] += ny * pointDp;
+    p[pI + 2] += nz * pointDp;
+    p[aI] += nx * aDp;
+    p[aI + 1] += ny * aDp;
+    p[aI + 2] += nz * aDp;
+    p[bI] += nx * bDp;
+    p[bI + 1] += ny * bDp;
+    p[bI + 2] += nz * bDp;
+    p[cI] += nx * cDp;
+    p[cI + 1] += ny * cDp;
+    p[cI + 2] += nz * cDp;
+  }
+
+  private handleCollisions(
+    obj: ParticleObject,
+    colliders: Collider[],
+    dt: number,
+  ) {
+    this.combineContactMaterials(getPhysicsMaterial(obj), colliders);
+
+    const state = obj.state!;
+    for (let i = 0; i < state.vertexCount; i++) {
+      if (state.invMasses[i] === 0) continue;
+      this.collideParticle(state, i, obj.p, colliders, dt);
+    }
+  }
+
+  // Emits, ages and moves the particles of a particle system, which live in
+  // world space and have no mass of their own to push colliders with
+  private stepParticles(
+    particles: Particles,
+    scene: Scene,
+    colliders: Collider[],
+    dt: number,
+  ) {
+    const state = particles.state!;
+    ageParticles(state, dt);
+    emitParticles(particles, scene.objects, dt);
+
+    const { positions, prevPositions } = state;
+    const [gP, v, a, wind] = this.scratch;
+    const dtSq = dt * dt;
+    const drag = particles.drag ?? 1;
+
+    for (let i = 0; i < state.count; i++) {
+      readVertex(positions, i, gP);
+      for (let axis = 0; axis < 3; axis++) {
+        const k = 3 * i + axis;
+        v[axis] = (positions[k] - prevPositions[k]) / dt;
+      }
+      getFieldAcceleration(scene.forces, gP, v, a);
+      if (drag > 0) {
+        getWindVelocity(scene.forces, gP, this.time, wind);
+        a.scaleAndAdd(wind.sub(v), drag);
       }
 
-      const distFromGround = gVertexP.y;
-      if (distFromGround <= 0.1) {
-        if (
-          gVertexP.x < ground.width / 2 &&
-          gVertexP.x > -ground.width / 2 &&
-          gVertexP.z < ground.length / 2 &&
-          gVertexP.z > -ground.length / 2
-        ) {
-          const penetrationDepth = 0.1 - distFromGround;
-          const correction = new Vec3(0, 1, 0).scale(penetrationDepth);
-          vertex.p.add(correction);
+      for (let axis = 0; axis < 3; axis++) {
+        const k = 3 * i + axis;
+        positions[k] =
+          2 * gP[axis] -
+          prevPositions[k] +
+          (this.gravity[axis] + a[axis]) * dtSq;
+        prevPositions[k] = gP[axis];
+      }
+    }
 
-          const velocity = Vec3.subtract(
-            new Vec3(),
-            vertex.p,
-            vertex.lastP,
-          ) as Vec3;
+    this.combineContactMaterials(getPhysicsMaterial(particles), colliders);
+    for (let i = 0; i < state.count; i++) {
+      this.collideParticle(state, i, origin, colliders, dt);
+    }
+  }
 
-          velocity.x *= 1 - mu;
-          velocity.z *= 1 - mu;
+  // Fills contactMaterials[c] with the material between material and
+  // colliders[c]
+  private combineContactMaterials(
+    material: PhysicsMaterial,
+    colliders: Collider[],
+  ) {
+    const materials = this.contactMaterials;
+    colliders.forEach((collider, c) => {
+      materials[c] ??= { friction: 0, restitution: 0, margin: 0 };
+      combineMaterials(
+        material,
+        getPhysicsMaterial(collider.object),
+        materials[c],
+      );
+    });
+  }
 
-          velocity.y *= -cr;
+  // Collides particle i, whose position is relative to objP, with every
+  // collider, using the materials from combineContactMaterials
+  private collideParticle(
+    state: ClothState | ParticleState,
+    i: number,
+    objP: Vec3,
+    colliders: Collider[],
+    dt: number,
+  ) {
+    const materials = this.contactMaterials;
+    const { positions, prevPositions } = state;
+    const [gVertexP, gStartP, hitNormal] = this.scratch;
 
-          vertex.lastP = Vec3.subtract(new Vec3(), vertex.p, velocity) as Vec3;
-        }
+    readVertex(positions, i, gVertexP).add(objP);
+    readVertex(prevPositions, i, gStartP).add(objP);
+
+    // A fast particle can pass right through a thin collider within one
+    // substep, so it stops where its path first comes within margin
+    let firstHit = Infinity;
+    let hitCollider = -1;
+    for (let c = 0; c < colliders.length; c++) {
+      const { margin } = materials[c];
+      const hit = sweepPoint(colliders[c], gStartP, gVertexP, margin, this.hit);
+      if (!hit || hit.t >= firstHit) continue;
+
+      firstHit = hit.t;
+      hitNormal.copy(hit.normal);
+      hitCollider = c;
+    }
+
+    if (hitCollider !== -1) {
+      this.contactCount++;
+
+      // Moved back along its path, keeping its velocity for the response
+      for (let k = 3 * i; k < 3 * i + 3; k++) {
+        const moved = positions[k] - prevPositions[k];
+        positions[k] = prevPositions[k] + moved * firstHit;
+        prevPositions[k] = positions[k] - moved;
       }
+      readVertex(positions, i, gVertexP).add(objP);
+      this.respondToContact(
+        state,
+        i,
+        colliders[hitCollider],
+        materials[hitCollider],
+        hitNormal,
+        0,
+        gVertexP,
+        dt,
+      );
+    }
+
+    for (let c = 0; c < colliders.length; c++) {
+      const { margin } = materials[c];
+      const contact = collidePoint(
+        colliders[c],
+        gVertexP,
+        margin,
+        this.contact,
+      );
+      if (!contact) continue;
+
+      this.contactCount++;
+      this.maxPenetration = Math.max(
+        this.maxPenetration,
+        contact.depth - margin,
+      );
+
+      this.respondToContact(
+        state,
+        i,
+        colliders[c],
+        materials[c],
+        contact.normal,
+        contact.depth,
+        gVertexP,
+        dt,
+      );
     }
   }
 
-  private updateVertexBuffer(cloth: Cloth) {
-    const vertexData = cloth.data!.vertexData;
-    for (let i = 0; i < cloth.vertices!.length; i++) {
-      const baseIndex = i * 9;
-      vertexData[baseIndex] = cloth.vertices![i].p[0];
-      vertexData[baseIndex + 1] = cloth.vertices![i].p[1];
-      vertexData[baseIndex + 2] = cloth.vertices![i].p[2];
+  // Pushes vertex i, at gVertexP in world space, out by depth. Friction and
+  // restitution act relative to the collider's surface, so moving bodies carry
+  // the cloth along.
+  private respondToContact(
+    state: ClothState | ParticleState,
+    i: number,
+    collider: Collider,
+    material: PhysicsMaterial,
+    normal: Vec3,
+    depth: number,
+    gVertexP: Vec3,
+    dt: number,
+  ) {
+    const { positions, prevPositions } = state;
+    const velocity = this.scratch[3];
+    const surfaceDisp = this.scratch[4];
+
+    for (let axis = 0; axis < 3; axis++) {
+      positions[3 * i + axis] += normal[axis] * depth;
+    }
+    gVertexP.scaleAndAdd(normal, depth);
+
+    getPointVelocity(collider.object, gVertexP, surfaceDisp).scale(dt);
+    for (let axis = 0; axis < 3; axis++) {
+      velocity[axis] =
+        positions[3 * i + axis] -
+        prevPositions[3 * i + axis] -
+        surfaceDisp[axis];
+    }
+
+    const vN = velocity.dot(normal);
+    const restitution = vN < 0 ? -material.restitution : 1;
+
+    // Coulomb friction, the tangential displacement shrinks by at most
+    // friction times how far the contact pushed along the normal
+    const normalPush = depth + (vN < 0 ? (1 + material.restitution) * -vN : 0);
+    const tangentLength = Math.sqrt(
+      Math.max(velocity.squaredMagnitude - vN * vN, 0),
+    );
+    const tangentScale =
+      tangentLength > 0
+        ? Math.max(1 - (material.friction * normalPush) / tangentLength, 0)
+        : 0;
+
+    for (let axis = 0; axis < 3; axis++) {
+      const normalVelocity = normal[axis] * vN;
+      const tangentVelocity = (velocity[axis] - normalVelocity) * tangentScale;
+      prevPositions[3 * i + axis] =
+        positions[3 * i + axis] -
+        (tangentVelocity + normalVelocity * restitution) -
+        surfaceDisp[axis];
     }
   }
 
-  private updateNormals(cloth: Cloth) {
-    const normals: Vec3[] = cloth.vertices!.map(() => new Vec3(0, 0, 0));
+  // Drops constraints stretched past the cloth's tear ratio, then splits the
+  // mesh around every vertex whose triangles no longer hang together
+  private tearCloth(cloth: Cloth) {
+    if (cloth.tearRatio === undefined) return;
+
+    const state = cloth.state!;
+    const { positions, constraintVertices, constraintKinds, restLengths } =
+      state;
+    let torn: Set<number> | null = null;
+
+    let kept = 0;
+    for (let i = 0; i < state.constraintCount; i++) {
+      const a = constraintVertices[2 * i];
+      const b = constraintVertices[2 * i + 1];
+      const length = Math.sqrt(getDistanceSq(positions, a, b));
+      if (length > restLengths[i] * cloth.tearRatio) {
+        torn ??= new Set();
+        torn.add(a).add(b);
+        continue;
+      }
+
+      constraintVertices[2 * kept] = a;
+      constraintVertices[2 * kept + 1] = b;
+      constraintKinds[kept] = constraintKinds[i];
+      restLengths[kept] = restLengths[i];
+      kept++;
+    }
+    state.constraintCount = kept;
+
+    if (!torn) return;
+
+    // Fresh index buffer so caches keyed on it are rebuilt
+    cloth.data!.indexData = cloth.data!.indexData.slice();
+    for (const vertex of torn) this.splitVertex(cloth, vertex);
+
+    // A triangle with two broken edges hangs off a vertex nothing else holds
+    const vertexCount = state.vertexCount;
+    const linked = new Set<number>();
+    for (let i = 0; i < state.constraintCount; i++) {
+      const a = state.constraintVertices[2 * i];
+      const b = state.constraintVertices[2 * i + 1];
+      linked.add(Math.min(a, b) * vertexCount + Math.max(a, b));
+    }
+    const isLinked = (a: number, b: number) =>
+      linked.has(Math.min(a, b) * vertexCount + Math.max(a, b));
 
-    const calculateTriangleNormal = (v1: Vec3, v2: Vec3, v3: Vec3): Vec3 => {
-      const edge1 = Vec3.subtract(Vec3.create(), v2, v1);
-      const edge2 = Vec3.subtract(Vec3.create(), v3, v1);
-      const normal = Vec3.cross(Vec3.create(), edge1, edge2);
-      Vec3.normalize(normal, normal);
-      return normal as Vec3;
+    const indexData = cloth.data!.indexData;
+    const keptIndices: number[] = [];
+    for (let i = 0; i < indexData.length; i += 3) {
+      const [a, b, c] = indexData.subarray(i, i + 3);
+      const brokenEdges =
+        Number(!isLinked(a, b)) +
+        Number(!isLinked(b, c)) +
+        Number(!isLinked(c, a));
+      if (brokenEdges < 2) keptIndices.push(a, b, c);
+    }
+    if (keptIndices.length < indexData.length) {
+      cloth.data!.indexData = new Uint32Array(keptIndices);
+    }
+  }
+
+  // Triangles around a vertex stay connected across a shared edge only while
+  // a constraint still joins the edge's ends. Every group of triangles cut
+  // off from the rest gets its own copy of the vertex.
+  private splitVertex(cloth: Cloth, v: number) {
+    const state = cloth.state!;
+    const indexData = cloth.data!.indexData;
+
+    const fan: number[] = [];
+    for (let i = 0; i < indexData.length; i += 3) {
+      if (
+        indexData[i] === v ||
+        indexData[i + 1] === v ||
+        indexData[i + 2] === v
+      )
+        fan.push(i);
+    }
+    if (fan.length < 2) return;
+
+    const linked = new Set<number>();
+    for (let i = 0; i < state.constraintCount; i++) {
+      const a = state.constraintVertices[2 * i];
+      const b = state.constraintVertices[2 * i + 1];
+      if (a === v) linked.add(b);
+      else if (b === v) linked.add(a);
+    }
+
+    const fanVertices = fan.map((i) =>
+      [indexData[i], indexData[i + 1], indexData[i + 2]].filter((x) => x !== v),
+    );
+
+    const parents = fan.map((_, i) => i);
+    const find = (i: number): number =>
+      parents[i] === i ? i : (parents[i] = find(parents[i]));
+
+    for (let i = 0; i < fan.length; i++) {
+      for (let j = i + 1; j < fan.length; j++) {
+        const connected = fanVertices[i].some(
+          (x) => linked.has(x) && fanVertices[j].includes(x),
+        );
+        if (connected) parents[find(i)] = find(j);
+      }
+    }
+
+    const groups = new Map<number, number[]>();
+    fan.forEach((_, i) => {
+      const root = find(i);
+      groups.set(root, [...(groups.get(root) ?? []), i]);
+    });
+    if (groups.size < 2) return;
+
+    const groupVertices = [...groups.values()].map(
+      (group) => new Set(group.flatMap((i) => fanVertices[i])),
+    );
+    const groupCenters = groupVertices.map((group) => {
+      const center = new Vec3();
+      for (const x of group) {
+        center.add(readVertex(state.positions, x, this.scratch[0]));
+      }
+      return center.scale(1 / group.size);
+    });
+
+    // Constraint ends outside every group, like bending links, go with the
+    // nearest group
+    const getGroup = (x: number) => {
+      const containing = groupVertices.flatMap((group, k) =>
+        group.has(x) ? [k] : [],
+      );
+      if (containing.length === 1) return containing[0];
+      if (containing.length > 1) return 0;
+
+      const p = readVertex(state.positions, x, new Vec3());
+      let nearest = 0;
+      groupCenters.forEach((center, k) => {
+        if (Vec3.distance(center, p) < Vec3.distance(groupCenters[nearest], p))
+          nearest = k;
+      });
+      return nearest;
     };
 
-    for (let i = 0; i < cloth.data!.indexData.length; i += 3) {
-      const idx1 = cloth.data!.indexData[i];
-      const idx2 = cloth.data!.indexData[i + 1];
-      const idx3 = cloth.data!.indexData[i + 2];
+    const oldVertexData = cloth.data!.vertexData;
+    const vertexData = new Float32Array(
+      oldVertexData.length + (groups.size - 1) * 9,
+    );
+    vertexData.set(oldVertexData);
 
-      const v1 = cloth.vertices![idx1].p;
-      const v2 = cloth.vertices![idx2].p;
-      const v3 = cloth.vertices![idx3].p;
+    const newIndices = [v];
+    [...groups.values()].slice(1).forEach((group) => {
+      const newIndex = copyClothVertex(state, v);
+      vertexData.copyWithin(newIndex * 9, v * 9, v * 9 + 9);
+      newIndices.push(newIndex);
 
-      const normal = calculateTriangleNormal(v1, v2, v3);
+      for (const i of group) {
+        const t = fan[i];
+        for (let k = t; k < t + 3; k++) {
+          if (indexData[k] === v) indexData[k] = newIndex;
+        }
+      }
+    });
 
-      Vec3.add(normals[idx1], normals[idx1], normal);
-      Vec3.add(normals[idx2], normals[idx2], normal);
-      Vec3.add(normals[idx3], normals[idx3], normal);
+    const constraintVertices = state.constraintVertices;
+    for (let i = 0; i < state.constraintCount; i++) {
+      const a = constraintVertices[2 * i];
+      const b = constraintVertices[2 * i + 1];
+      if (a === v) constraintVertices[2 * i] = newIndices[getGroup(b)];
+      else if (b === v) constraintVertices[2 * i + 1] = newIndices[getGroup(a)];
     }
 
-    normals.forEach((normal) => Vec3.normalize(normal, normal));
+    cloth.data!.vertexData = vertexData;
+  }
 
+  private updateVertexBuffer(cloth: ParticleObject) {
+    const { vertexCount, positions } = cloth.state!;
     const vertexData = cloth.data!.vertexData;
-    for (let i = 0; i < cloth.vertices!.length; i++) {
+    for (let i = 0; i < vertexCount; i++) {
       const baseIndex = i * 9;
-      vertexData[baseIndex + 3] = normals[i].x;
-      vertexData[baseIndex + 4] = normals[i].y;
-      vertexData[baseIndex + 5] = normals[i].z;
+      vertexData[baseIndex] = positions[3 * i];
+      vertexData[baseIndex + 1] = positions[3 * i + 1];
+      vertexData[baseIndex + 2] = positions[3 * i + 2];
+    }
+  }
+
+  // Accumulates unit face normals straight into the vertex buffer
+  private updateNormals(cloth: ParticleObject) {
+    const { vertexCount, positions: p } = cloth.state!;
+    const { vertexData, indexData } = cloth.data!;
+
+    for (let i = 0; i < vertexCount; i++) {
+      vertexData.fill(0, i * 9 + 3, i * 9 + 6);
+    }
+
+    for (let i = 0; i < indexData.length; i += 3) {
+      const a = 3 * indexData[i];
+      const b = 3 * indexData[i + 1];
+      const c = 3 * indexData[i + 2];
+
+      const e1x = p[b] - p[a],
+        e1y = p[b + 1] - p[a + 1],
+        e1z = p[b + 2] - p[a + 2];
+      const e2x = p[c] - p[a],
+        e2y = p[c + 1] - p[a + 1],
+        e2z = p[c + 2] - p[a + 2];
+      const nx = e1y * e2z - e1z * e2y,
+        ny = e1z * e2x - e1x * e2z,
+        nz = e1x * e2y - e1y * e2x;
+      const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+      if (length === 0) continue;
+
+      addScaled(vertexData, 3 * a + 3, nx, ny, nz, 1 / length);
+      addScaled(vertexData, 3 * b + 3, nx, ny, nz, 1 / length);
+      addScaled(vertexData, 3 * c + 3, nx, ny, nz, 1 / length);
+    }
+
+    for (let i = 0; i < vertexCount; i++) {
+      const base = i * 9 + 3;
+      const length = Math.hypot(
+        vertexData[base],
+        vertexData[base + 1],
+        vertexData[base + 2],
+      );
+      if (length === 0) continue;
+      vertexData[base] /= length;
+      vertexData[base + 1] /= length;
+      vertexData[base + 2] /= length;
     }
   }
 }
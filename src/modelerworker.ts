@@ -0,0 +1,203 @@
+// Entry point of the worker WorkerModeler runs the Modeler in
+import { Vec3, Vec2, Quat } from "gl-matrix";
+import Modeler from "./modeler";
+import { StepDiagnostics } from "./diagnostics";
+import Scene, {
+  EmitterKind,
+  ObjectKind,
+  ParticleObject,
+  SceneObject,
+  isParticleObject,
+} from "./scene";
+import { ForceField, ForceKind } from "./forces";
+import { isRigidBody } from "./rigidbodies";
+import { cloneParticleState } from "./particles";
+import {
+  ClothUpdate,
+  ParticleUpdate,
+  WorkerRequest,
+  WorkerRequestKind,
+  WorkerResult,
+  readTransform,
+  writeTransforms,
+} from "./workermodeler";
+
+const toVec3 = (v: ArrayLike<number>) => new Vec3(v[0], v[1], v[2]);
+
+// Structured cloning turns gl-matrix vectors into plain typed arrays
+const reviveObject = (obj: SceneObject) => {
+  obj.color = toVec3(obj.color);
+  obj.p = toVec3(obj.p);
+  obj.v = toVec3(obj.v);
+  obj.a = toVec3(obj.a);
+  if (obj.w) obj.w = toVec3(obj.w);
+  if (obj.rotation) obj.rotation = new Quat(obj.rotation);
+  delete obj.render;
+
+  if (obj.kind === ObjectKind.Cloth && obj.divisions) {
+    obj.divisions = new Vec2(obj.divisions[0], obj.divisions[1]);
+  }
+  if (obj.kind === ObjectKind.Rope) {
+    if (obj.direction) obj.direction = toVec3(obj.direction);
+    obj.roots = obj.roots?.map(toVec3);
+  }
+  if (obj.kind === ObjectKind.Particles) {
+    obj.velocity = toVec3(obj.velocity);
+    obj.colorOverLife = obj.colorOverLife?.map(toVec3);
+    if (obj.emitter.kind === EmitterKind.Box) {
+      obj.emitter.size = toVec3(obj.emitter.size);
+    }
+  }
+  if (isParticleObject(obj)) {
+    for (const pin of obj.pins ?? []) {
+      if (pin.p) pin.p = toVec3(pin.p);
+    }
+    for (const attachment of obj.attachments ?? []) {
+      if (attachment.offset) attachment.offset = toVec3(attachment.offset);
+    }
+  }
+  return obj;
+};
+
+const reviveForce = (field: ForceField) => {
+  switch (field.kind) {
+    case ForceKind.Wind:
+    case ForceKind.TurbulentWind:
+      field.velocity = toVec3(field.velocity);
+      break;
+    case ForceKind.Attractor:
+      field.p = toVec3(field.p);
+      break;
+    case ForceKind.Vortex:
+      field.p = toVec3(field.p);
+      field.axis = toVec3(field.axis);
+      break;
+  }
+  return field;
+};
+
+const modeler = new Modeler();
+let scene: Scene | null = null;
+let spareBuffers: Float32Array[] = [];
+let epoch = 0;
+let diagnostics: StepDiagnostics[] = [];
+let unsubscribe: (() => void) | null = null;
+const sentIndexData = new WeakMap<ParticleObject, Uint32Array>();
+
+// Index data on the other side is already up to date with the scene
+const markIndexDataSent = (scene: Scene) => {
+  for (const obj of scene.objects) {
+    if (isParticleObject(obj) && obj.data) {
+      sentIndexData.set(obj, obj.data.indexData);
+    }
+  }
+};
+
+const getClothUpdate = (cloth: ParticleObject, object: number): ClothUpdate => {
+  const { vertexData, indexData } = cloth.data!;
+
+  const spare = spareBuffers.findIndex(
+    (buffer) => buffer.length === vertexData.length,
+  );
+  const buffer =
+    spare === -1
+      ? new Float32Array(vertexData.length)
+      : spareBuffers.splice(spare, 1)[0];
+  buffer.set(vertexData);
+  const update: ClothUpdate = { object, vertexData: buffer };
+
+  if (sentIndexData.get(cloth) !== indexData) {
+    update.indexData = indexData.slice();
+    sentIndexData.set(cloth, indexData);
+  }
+  return update;
+};
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+
+  switch (request.kind) {
+    case WorkerRequestKind.Init: {
+      scene = new Scene(
+        request.objects.map(reviveObject),
+        request.forces.map(reviveForce),
+      );
+      modeler.substeps = request.substeps;
+      modeler.gravity.set(request.gravity);
+      modeler.time = request.time;
+      markIndexDataSent(scene);
+      break;
+    }
+    case WorkerRequestKind.Restore: {
+      if (!scene) return;
+
+      modeler.restore(scene, request.snapshot);
+      epoch = request.epoch;
+      markIndexDataSent(scene);
+      break;
+    }
+    case WorkerRequestKind.Step: {
+      if (!scene) return;
+
+      scene.objects.forEach((obj, i) => {
+        if (!isRigidBody(obj) && !isParticleObject(obj)) {
+          readTransform(request.transforms, i, obj);
+        }
+      });
+      spareBuffers = request.buffers;
+      if (request.diagnostics && !unsubscribe) {
+        unsubscribe = modeler.subscribe((step) => diagnostics.push(step));
+      } else if (!request.diagnostics && unsubscribe) {
+        unsubscribe();
+        unsubscribe = null;
+      }
+      modeler.grab = request.grab && {
+        ...request.grab,
+        target: toVec3(request.grab.target),
+      };
+
+      for (let i = 0; i < request.steps; i++) {
+        await modeler.step(request.dt, scene);
+      }
+
+      const cloths = scene.objects.flatMap((obj, i) =>
+        isParticleObject(obj) && obj.data ? [getClothUpdate(obj, i)] : [],
+      );
+      const particles = scene.objects.flatMap(
+        (obj, object): ParticleUpdate[] =>
+          obj.kind === ObjectKind.Particles && obj.state
+            ? [{ object, state: cloneParticleState(obj.state) }]
+            : [],
+      );
+      const result: WorkerResult = {
+        epoch,
+        time: modeler.time,
+        transforms: writeTransforms(scene.objects),
+        cloths,
+        particles,
+      };
+      if (request.snapshot) result.snapshot = modeler.takeSnapshot(scene);
+      if (diagnostics.length > 0) {
+        result.diagnostics = diagnostics;
+        diagnostics = [];
+      }
+      self.postMessage(result, {
+        transfer: [
+          result.transforms.buffer,
+          ...cloths.flatMap(({ vertexData, indexData }) =>
+            indexData
+              ? [vertexData.buffer, indexData.buffer]
+              : [vertexData.buffer],
+          ),
+          ...particles.flatMap(({ state }) => [
+            state.positions.buffer,
+            state.prevPositions.buffer,
+            state.ages.buffer,
+            state.lifetimes.buffer,
+          ]),
+        ],
+      });
+      break;
+    }
+  }
+};
@@ -0,0 +1,65 @@
+import { Vec3 } from "gl-matrix";
+
+// A model file that isn't valid, or uses something the loaders don't support
+export class ModelParseError extends Error {
+  file: string;
+
+  constructor(file: string, message: string) {
+    super(message);
+    this.name = "ModelParseError";
+    this.file = file;
+  }
+}
+
+// Triangles start / 3 up to (start + count) / 3 of indexData, one part of a
+// model with a single material
+export interface MeshGroup {
+  name: string;
+  material: string | null;
+  start: number;
+  count: number;
+}
+
+// What every model loader produces
+export interface ModelMesh {
+  // p, normal and color of every vertex, like every other mesh
+  vertexData: Float32Array;
+  indexData: Uint32Array;
+  // u and v of every vertex, 0 where the file has none
+  uvData: Float32Array;
+  groups: MeshGroup[];
+}
+
+const edge1 = new Vec3();
+const edge2 = new Vec3();
+const normal = new Vec3();
+
+// Sets the normal of every vertex to the area weighted average of its
+// triangles' normals
+export const setSmoothNormals = (
+  vertexData: Float32Array,
+  indexData: Uint32Array,
+) => {
+  for (let i = 0; i < vertexData.length; i += 9) {
+    vertexData.fill(0, i + 3, i + 6);
+  }
+
+  const p = (vertex: number) => vertexData.subarray(9 * vertex, 9 * vertex + 3);
+  for (let i = 0; i < indexData.length; i += 3) {
+    const [a, b, c] = [indexData[i], indexData[i + 1], indexData[i + 2]];
+    Vec3.sub(edge1, p(b), p(a));
+    Vec3.sub(edge2, p(c), p(a));
+    Vec3.cross(normal, edge1, edge2);
+    for (const vertex of [a, b, c]) {
+      for (let axis = 0; axis < 3; axis++) {
+        vertexData[9 * vertex + 3 + axis] += normal[axis];
+      }
+    }
+  }
+
+  for (let i = 0; i < vertexData.length; i += 9) {
+    normal.set(vertexData.subarray(i + 3, i + 6));
+    if (normal.squaredMagnitude > 0) normal.normalize();
+    vertexData.set(normal, i + 3);
+  }
+};
@@ -0,0 +1,331 @@
+import { Vec3 } from "gl-matrix";
+import { MeshGroup, ModelMesh, ModelParseError } from "./modelmesh";
+
+// A malformed line of an OBJ or MTL file
+export class ObjParseError extends ModelParseError {
+  line: number;
+
+  constructor(file: string, line: number, message: string) {
+    super(file, `${file}:${line}: ${message}`);
+    this.name = "ObjParseError";
+    this.line = line;
+  }
+}
+
+export interface ObjMaterial {
+  // Kd, faces without one keep the model's color
+  diffuse?: Vec3;
+}
+
+// Indices of a face corner into positions, uvs and normals, -1 when missing
+type Corner = [number, number, number];
+
+interface ObjFace {
+  corners: Corner[];
+  line: number;
+}
+
+interface ObjGroup {
+  name: string;
+  material: string | null;
+  // Of the usemtl that set material
+  materialLine: number;
+  faces: ObjFace[];
+}
+
+// An OBJ file as written, before materials are known
+export interface ObjFile {
+  positions: number[];
+  uvs: number[];
+  normals: number[];
+  groups: ObjGroup[];
+  materialLibraries: string[];
+}
+
+type Fail = (message: string) => never;
+
+// Keyword and arguments of a line, without comments or extra whitespace
+const tokenize = (line: string) => {
+  const hash = line.indexOf("#");
+  return (hash === -1 ? line : line.slice(0, hash)).trim().split(/\s+/);
+};
+
+const parseNumbers = (args: string[], min: number, max: number, fail: Fail) => {
+  if (args.length < min || args.length > max) {
+    fail(
+      min === max
+        ? `expected ${min} numbers but got ${args.length}`
+        : `expected ${min} to ${max} numbers but got ${args.length}`,
+    );
+  }
+  return args.map((arg) => {
+    const value = Number(arg);
+    if (!Number.isFinite(value)) fail(`"${arg}" is not a number`);
+    return value;
+  });
+};
+
+// 1-based, or negative to count back from the last one so far
+const parseIndex = (token: string, count: number, kind: string, fail: Fail) => {
+  const index = Number(token);
+  if (!Number.isInteger(index) || index === 0) {
+    fail(`"${token}" is not a valid ${kind} index`);
+  }
+  const resolved = index < 0 ? count + index : index - 1;
+  if (resolved < 0 || resolved >= count) {
+    fail(`${kind} index ${index} is out of range, there are ${count}`);
+  }
+  return resolved;
+};
+
+// v, v/vt, v//vn or v/vt/vn
+const parseCorner = (token: string, file: ObjFile, fail: Fail): Corner => {
+  const [p, uv = "", normal = "", ...rest] = token.split("/");
+  if (rest.length > 0) fail(`"${token}" is not a valid face vertex`);
+
+  return [
+    parseIndex(p, file.positions.length / 3, "vertex", fail),
+    uv === "" ? -1 : parseIndex(uv, file.uvs.length / 2, "texture", fail),
+    normal === ""
+      ? -1
+      : parseIndex(normal, file.normals.length / 3, "normal", fail),
+  ];
+};
+
+// name is only used in errors
+export const parseObj = (content: string, name = "model.obj"): ObjFile => {
+  const file: ObjFile = {
+    positions: [],
+    uvs: [],
+    normals: [],
+    groups: [],
+    materialLibraries: [],
+  };
+  const lines = content.split(/\r?\n|\r/);
+
+  let groupName = "default";
+  let material: string | null = null;
+  let materialLine = 0;
+  let group: ObjGroup | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = i + 1;
+    const fail: Fail = (message) => {
+      throw new ObjParseError(name, line, message);
+    };
+    const [keyword, ...args] = tokenize(lines[i]);
+
+    switch (keyword) {
+      case "v":
+        // Anything after x, y and z is w or a vertex color
+        file.positions.push(...parseNumbers(args, 3, 7, fail).slice(0, 3));
+        break;
+      case "vt": {
+        const [u, v = 0] = parseNumbers(args, 1, 3, fail);
+        file.uvs.push(u, v);
+        break;
+      }
+      case "vn":
+        file.normals.push(...parseNumbers(args, 3, 3, fail));
+        break;
+      case "f": {
+        if (args.length < 3) {
+          fail(`a face needs at least 3 vertices but has ${args.length}`);
+        }
+        const corners = args.map((arg) => parseCorner(arg, file, fail));
+        if (!group) {
+          group = { name: groupName, material, materialLine, faces: [] };
+          file.groups.push(group);
+        }
+        group.faces.push({ corners, line });
+        break;
+      }
+      case "o":
+      case "g":
+        groupName = args.join(" ") || "default";
+        group = null;
+        break;
+      case "usemtl":
+        if (args.length === 0) fail("usemtl needs a material name");
+        material = args.join(" ");
+        materialLine = line;
+        group = null;
+        break;
+      case "mtllib":
+        if (args.length === 0) fail("mtllib needs a file name");
+        file.materialLibraries.push(...args);
+        break;
+    }
+  }
+
+  return file;
+};
+
+// Adds the materials of an MTL file to materials, name is only used in errors
+export const parseMtl = (
+  content: string,
+  name = "model.mtl",
+  materials = new Map<string, ObjMaterial>(),
+) => {
+  const lines = content.split(/\r?\n|\r/);
+  let material: ObjMaterial | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = i + 1;
+    const fail: Fail = (message) => {
+      throw new ObjParseError(name, line, message);
+    };
+    const [keyword, ...args] = tokenize(lines[i]);
+
+    switch (keyword) {
+      case "newmtl":
+        if (args.length === 0) fail("newmtl needs a material name");
+        material = {};
+        materials.set(args.join(" "), material);
+        break;
+      case "Kd": {
+        if (!material) fail("Kd comes before any newmtl");
+        if (args[0] === "spectral" || args[0] === "xyz") {
+          fail(`only rgb Kd is supported, not ${args[0]}`);
+        }
+        const [r, g = r, b = r] = parseNumbers(args, 1, 3, fail);
+        material.diffuse = new Vec3(r, g, b);
+        break;
+      }
+    }
+  }
+
+  return materials;
+};
+
+const edge1 = new Vec3();
+const edge2 = new Vec3();
+const normal = new Vec3();
+const pA = new Vec3();
+
+// Area weighted normals of every position, for faces without vn. Positions at
+// the same point share theirs, so seams in the mesh don't show.
+const getSmoothNormals = (file: ObjFile) => {
+  const { positions } = file;
+  const count = positions.length / 3;
+
+  const welded = new Int32Array(count);
+  const firsts = new Map<string, number>();
+  for (let i = 0; i < count; i++) {
+    const key = `${positions[3 * i]},${positions[3 * i + 1]},${positions[3 * i + 2]}`;
+    const first = firsts.get(key) ?? i;
+    firsts.set(key, first);
+    welded[i] = first;
+  }
+
+  const sums = new Float32Array(positions.length);
+  const p = (i: number, out: Vec3) => {
+    out.set(positions.slice(3 * i, 3 * i + 3));
+    return out;
+  };
+  for (const { faces } of file.groups) {
+    for (const { corners } of faces) {
+      const a = corners[0][0];
+      for (let i = 1; i + 1 < corners.length; i++) {
+        const b = corners[i][0];
+        const c = corners[i + 1][0];
+        p(a, pA);
+        Vec3.sub(edge1, p(b, edge1), pA);
+        Vec3.sub(edge2, p(c, edge2), pA);
+        Vec3.cross(normal, edge1, edge2);
+        for (const vertex of [a, b, c]) {
+          for (let axis = 0; axis < 3; axis++) {
+            sums[3 * welded[vertex] + axis] += normal[axis];
+          }
+        }
+      }
+    }
+  }
+
+  const normals = new Float32Array(positions.length);
+  for (let i = 0; i < count; i++) {
+    normals.set(sums.subarray(3 * welded[i], 3 * welded[i] + 3), 3 * i);
+  }
+  return normals;
+};
+
+// Triangulates every face as a fan, which assumes polygons are convex. Every
+// group gets its own vertices, split wherever a position has more than one uv
+// or normal.
+export const buildObjMesh = (
+  file: ObjFile,
+  materials: Map<string, ObjMaterial>,
+  color: Vec3,
+  name = "model.obj",
+): ModelMesh => {
+  const needsNormals = file.groups.some(({ faces }) =>
+    faces.some(({ corners }) => corners.some((corner) => corner[2] === -1)),
+  );
+  const smoothNormals = needsNormals ? getSmoothNormals(file) : null;
+
+  const vertexData: number[] = [];
+  const uvData: number[] = [];
+  const indexData: number[] = [];
+  const groups: MeshGroup[] = [];
+
+  for (const group of file.groups) {
+    let groupColor = color;
+    if (group.material !== null) {
+      const material = materials.get(group.material);
+      if (!material) {
+        throw new ObjParseError(
+          name,
+          group.materialLine,
+          `material "${group.material}" isn't in any mtllib`,
+        );
+      }
+      groupColor = material.diffuse ?? color;
+    }
+
+    const vertices = new Map<string, number>();
+    const getVertex = ([p, uv, n]: Corner) => {
+      const key = `${p}/${uv}/${n}`;
+      let vertex = vertices.get(key);
+      if (vertex !== undefined) return vertex;
+
+      if (n === -1) {
+        normal.set(smoothNormals!.subarray(3 * p, 3 * p + 3));
+      } else {
+        normal.set(file.normals.slice(3 * n, 3 * n + 3));
+      }
+      if (normal.squaredMagnitude > 0) normal.normalize();
+      else normal.set([0, 1, 0]);
+
+      vertex = vertexData.length / 9;
+      vertexData.push(
+        ...file.positions.slice(3 * p, 3 * p + 3),
+        ...normal,
+        ...groupColor,
+      );
+      uvData.push(...(uv === -1 ? [0, 0] : file.uvs.slice(2 * uv, 2 * uv + 2)));
+      vertices.set(key, vertex);
+      return vertex;
+    };
+
+    const start = indexData.length;
+    for (const { corners } of group.faces) {
+      const first = getVertex(corners[0]);
+      for (let i = 1; i + 1 < corners.length; i++) {
+        indexData.push(first, getVertex(corners[i]), getVertex(corners[i + 1]));
+      }
+    }
+    groups.push({
+      name: group.name,
+      material: group.material,
+      start,
+      count: indexData.length - start,
+    });
+  }
+
+  return {
+    vertexData: new Float32Array(vertexData),
+    indexData: new Uint32Array(indexData),
+    uvData: new Float32Array(uvData),
+    groups,
+  };
+};
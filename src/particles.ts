@@ -0,0 +1,245 @@
+import { Quat, Vec3 } from "gl-matrix";
+import { EmitterKind, Particles, SceneObject } from "./scene";
+
+// Live particles of a particle object in flat buffers, in world space.
+// Particle i is at positions[3 * i] to positions[3 * i + 2] for i below
+// count, dead ones are swapped with the last live one.
+export interface ParticleState {
+  count: number;
+  positions: Float32Array;
+  prevPositions: Float32Array;
+  ages: Float32Array;
+  lifetimes: Float32Array;
+  // Part of a particle owed by earlier emission
+  pending: number;
+  // Of the random number generator, so runs and replays repeat exactly
+  seed: number;
+}
+
+// p, size and color of each particle for the renderer
+export const particleInstanceSize = 7;
+
+export const createParticleState = (
+  capacity: number,
+  seed = 1,
+): ParticleState => ({
+  count: 0,
+  positions: new Float32Array(3 * capacity),
+  prevPositions: new Float32Array(3 * capacity),
+  ages: new Float32Array(capacity),
+  lifetimes: new Float32Array(capacity),
+  pending: 0,
+  seed,
+});
+
+export const cloneParticleState = (state: ParticleState): ParticleState => ({
+  ...state,
+  positions: state.positions.slice(),
+  prevPositions: state.prevPositions.slice(),
+  ages: state.ages.slice(),
+  lifetimes: state.lifetimes.slice(),
+});
+
+// Mulberry32, uniform in [0, 1)
+const random = (state: ParticleState) => {
+  let t = (state.seed = (state.seed + 0x6d2b79f5) | 0);
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const randomInBall = (state: ParticleState, radius: number, out: Vec3) => {
+  do {
+    out[0] = 2 * random(state) - 1;
+    out[1] = 2 * random(state) - 1;
+    out[2] = 2 * random(state) - 1;
+  } while (Vec3.squaredLength(out) > 1);
+  return out.scale(radius);
+};
+
+const edge1 = new Vec3();
+const edge2 = new Vec3();
+const offset = new Vec3();
+const velocity = new Vec3();
+const surfaceP = new Vec3();
+const identity = Quat.create();
+
+// Running total of triangle areas of each mesh, from the first time it emits
+const triangleAreaSums = new WeakMap<Uint32Array, Float32Array>();
+
+const getTriangleAreaSums = (
+  vertexData: Float32Array,
+  indexData: Uint32Array,
+) => {
+  let sums = triangleAreaSums.get(indexData);
+  if (sums) return sums;
+
+  sums = new Float32Array(indexData.length / 3);
+  let total = 0;
+  for (let i = 0; i < indexData.length; i += 3) {
+    const a = 9 * indexData[i];
+    const b = 9 * indexData[i + 1];
+    const c = 9 * indexData[i + 2];
+    Vec3.sub(
+      edge1,
+      vertexData.subarray(b, b + 3),
+      vertexData.subarray(a, a + 3),
+    );
+    Vec3.sub(
+      edge2,
+      vertexData.subarray(c, c + 3),
+      vertexData.subarray(a, a + 3),
+    );
+    total += Vec3.length(Vec3.cross(edge1, edge1, edge2)) / 2;
+    sums[i / 3] = total;
+  }
+  triangleAreaSums.set(indexData, sums);
+  return sums;
+};
+
+// A random point on target's surface, in world space
+const sampleSurface = (
+  state: ParticleState,
+  target: SceneObject,
+  out: Vec3,
+) => {
+  out.copy(target.p);
+  if (!target.data || target.data.indexData.length === 0) return out;
+
+  const { vertexData, indexData } = target.data;
+  const sums = getTriangleAreaSums(vertexData, indexData);
+  const area = random(state) * sums[sums.length - 1];
+  let low = 0;
+  let high = sums.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sums[mid] < area) low = mid + 1;
+    else high = mid;
+  }
+
+  // Uniform barycentric coordinates
+  const r1 = Math.sqrt(random(state));
+  const r2 = random(state);
+  const a = 9 * indexData[3 * low];
+  const b = 9 * indexData[3 * low + 1];
+  const c = 9 * indexData[3 * low + 2];
+  for (let axis = 0; axis < 3; axis++) {
+    offset[axis] =
+      vertexData[a + axis] * (1 - r1) +
+      vertexData[b + axis] * r1 * (1 - r2) +
+      vertexData[c + axis] * r1 * r2;
+  }
+  Vec3.transformQuat(offset, offset, target.rotation ?? identity);
+  return out.add(offset);
+};
+
+const spawn = (particles: Particles, objects: SceneObject[], dt: number) => {
+  const state = particles.state!;
+  const { emitter } = particles;
+  const i = state.count++;
+  const p = state.positions.subarray(3 * i, 3 * i + 3);
+
+  switch (emitter.kind) {
+    case EmitterKind.Point:
+      offset.set([0, 0, 0]);
+      break;
+    case EmitterKind.Sphere:
+      randomInBall(state, emitter.radius, offset);
+      break;
+    case EmitterKind.Box:
+      for (let axis = 0; axis < 3; axis++) {
+        offset[axis] = (random(state) - 0.5) * emitter.size[axis];
+      }
+      break;
+  }
+
+  const target = emitter.kind === EmitterKind.Mesh && objects[emitter.object];
+  if (target) {
+    p.set(sampleSurface(state, target, surfaceP));
+  } else {
+    Vec3.transformQuat(offset, offset, particles.rotation ?? identity);
+    Vec3.add(p, particles.p, offset);
+  }
+
+  randomInBall(state, particles.velocitySpread ?? 0, velocity);
+  velocity.add(particles.velocity);
+  for (let axis = 0; axis < 3; axis++) {
+    state.prevPositions[3 * i + axis] = p[axis] - velocity[axis] * dt;
+  }
+  state.ages[i] = 0;
+  state.lifetimes[i] = particles.lifetime;
+};
+
+// Adds the particles owed after another dt, ones that don't fit are dropped
+export const emitParticles = (
+  particles: Particles,
+  objects: SceneObject[],
+  dt: number,
+) => {
+  const state = particles.state!;
+  const capacity = state.lifetimes.length;
+
+  state.pending += particles.rate * dt;
+  for (; state.pending >= 1; state.pending--) {
+    if (state.count < capacity) spawn(particles, objects, dt);
+  }
+};
+
+// Moves the last live particle into i's place
+const removeParticle = (state: ParticleState, i: number) => {
+  const last = --state.count;
+  state.positions.copyWithin(3 * i, 3 * last, 3 * last + 3);
+  state.prevPositions.copyWithin(3 * i, 3 * last, 3 * last + 3);
+  state.ages[i] = state.ages[last];
+  state.lifetimes[i] = state.lifetimes[last];
+};
+
+// Ages every particle by dt and removes the ones past their lifetime
+export const ageParticles = (state: ParticleState, dt: number) => {
+  for (let i = 0; i < state.count;) {
+    state.ages[i] += dt;
+    if (state.ages[i] >= state.lifetimes[i]) removeParticle(state, i);
+    else i++;
+  }
+};
+
+// Blends the stops around t, count stops spread evenly over [0, 1]
+const sampleStops = (
+  count: number,
+  t: number,
+  get: (stop: number) => number,
+) => {
+  const x = Math.min(Math.max(t, 0), 1) * (count - 1);
+  const stop = Math.min(Math.floor(x), Math.max(count - 2, 0));
+  const next = Math.min(stop + 1, count - 1);
+  return get(stop) + (get(next) - get(stop)) * (x - stop);
+};
+
+// Writes particleInstanceSize floats per live particle to out from start on
+// and returns how many particles were written
+export const writeParticleInstances = (
+  particles: Particles,
+  out: Float32Array,
+  start: number,
+) => {
+  const state = particles.state;
+  if (!state) return 0;
+
+  const colors = particles.colorOverLife ?? [particles.color];
+  const sizes = particles.sizeOverLife ?? [0.05];
+  for (let i = 0; i < state.count; i++) {
+    const t = state.ages[i] / state.lifetimes[i];
+    const o = start + i * particleInstanceSize;
+
+    out.set(state.positions.subarray(3 * i, 3 * i + 3), o);
+    out[o + 3] = sampleStops(sizes.length, t, (stop) => sizes[stop]);
+    for (let channel = 0; channel < 3; channel++) {
+      out[o + 4 + channel] = sampleStops(
+        colors.length,
+        t,
+        (stop) => colors[stop][channel],
+      );
+    }
+  }
+  return state.count;
+};
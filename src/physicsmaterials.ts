@@ -0,0 +1,75 @@
+import { ObjectKind, SceneObject } from "./scene";
+
+// How the friction and restitution of two touching materials mix. When the
+// two ask for different rules, the one further down wins.
+export enum CombineRule {
+  Average,
+  Min,
+  Multiply,
+}
+
+export interface PhysicsMaterial {
+  // Coulomb friction coefficient
+  friction: number;
+  // Part of the speed towards the surface that bounces back
+  restitution: number;
+  // Contacts start this far from the surface, the margins of both sides add
+  // up. Keeps cloth from showing through what it lies on.
+  margin: number;
+  combine?: CombineRule;
+}
+
+export const PhysicsMaterials = {
+  default: { friction: 0.4, restitution: 0.3, margin: 0 },
+  cloth: { friction: 0.4, restitution: 0.1, margin: 0.1 },
+  rubber: { friction: 0.9, restitution: 0.8, margin: 0 },
+  ice: {
+    friction: 0.02,
+    restitution: 0.1,
+    margin: 0,
+    combine: CombineRule.Min,
+  },
+  wood: { friction: 0.5, restitution: 0.3, margin: 0 },
+  steel: { friction: 0.3, restitution: 0.5, margin: 0 },
+} satisfies Record<string, PhysicsMaterial>;
+
+// Ropes default to cloth's, with the margin at the surface of their tube
+export const getPhysicsMaterial = (obj: SceneObject): PhysicsMaterial => {
+  if (obj.physicsMaterial) return obj.physicsMaterial;
+
+  switch (obj.kind) {
+    case ObjectKind.Cloth:
+      return PhysicsMaterials.cloth;
+    case ObjectKind.Rope:
+      return { ...PhysicsMaterials.cloth, margin: obj.radius };
+    default:
+      return PhysicsMaterials.default;
+  }
+};
+
+const combineValues = (rule: CombineRule, a: number, b: number) => {
+  switch (rule) {
+    case CombineRule.Average:
+      return (a + b) / 2;
+    case CombineRule.Min:
+      return Math.min(a, b);
+    case CombineRule.Multiply:
+      return a * b;
+  }
+};
+
+// The material of a contact between a and b
+export const combineMaterials = (
+  a: PhysicsMaterial,
+  b: PhysicsMaterial,
+  out: PhysicsMaterial = { friction: 0, restitution: 0, margin: 0 },
+) => {
+  const rule = Math.max(
+    a.combine ?? CombineRule.Average,
+    b.combine ?? CombineRule.Average,
+  );
+  out.friction = combineValues(rule, a.friction, b.friction);
+  out.restitution = combineValues(rule, a.restitution, b.restitution);
+  out.margin = a.margin + b.margin;
+  return out;
+};
@@ -0,0 +1,358 @@
+import { Vec3 } from "gl-matrix";
+import { ModelMesh, ModelParseError, setSmoothNormals } from "./modelmesh";
+
+// The vertices and triangulated faces of a PLY file, colors from 0 to 1
+export interface PlyFile {
+  positions: Float32Array;
+  normals: Float32Array | null;
+  colors: Float32Array | null;
+  uvs: Float32Array | null;
+  indexData: Uint32Array;
+}
+
+interface PlyProperty {
+  name: string;
+  type: string;
+  // Of list properties
+  countType?: string;
+}
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+type Fail = (message: string) => never;
+
+// Every type goes by two names
+const typeNames: Record<string, string> = {
+  char: "int8",
+  uchar: "uint8",
+  short: "int16",
+  ushort: "uint16",
+  int: "int32",
+  uint: "uint32",
+  float: "float32",
+  double: "float64",
+};
+
+const typeSizes: Record<string, number> = {
+  int8: 1,
+  uint8: 1,
+  int16: 2,
+  uint16: 2,
+  int32: 4,
+  uint32: 4,
+  float32: 4,
+  float64: 8,
+};
+
+// Integer colors go from 0 to their largest value
+const colorScales: Record<string, number> = {
+  uint8: 255,
+  uint16: 65535,
+};
+
+// Which vertex property goes where, under the names files use for it
+const vertexProperties: Record<
+  string,
+  ["positions" | "normals" | "colors" | "uvs", number]
+> = {
+  x: ["positions", 0],
+  y: ["positions", 1],
+  z: ["positions", 2],
+  nx: ["normals", 0],
+  ny: ["normals", 1],
+  nz: ["normals", 2],
+  red: ["colors", 0],
+  green: ["colors", 1],
+  blue: ["colors", 2],
+  diffuse_red: ["colors", 0],
+  diffuse_green: ["colors", 1],
+  diffuse_blue: ["colors", 2],
+  u: ["uvs", 0],
+  v: ["uvs", 1],
+  s: ["uvs", 0],
+  t: ["uvs", 1],
+  texture_u: ["uvs", 0],
+  texture_v: ["uvs", 1],
+};
+
+// Of the face property listing its vertices
+const faceIndexNames = ["vertex_indices", "vertex_index"];
+
+const decodeAscii = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+export const isPly = (data: ArrayBuffer) =>
+  /^ply\r?\n/.test(
+    decodeAscii(new Uint8Array(data, 0, Math.min(data.byteLength, 5))),
+  );
+
+// Byte offset of the data after the end_header line, or -1
+const findBodyStart = (bytes: Uint8Array) => {
+  const marker = "end_header";
+  search: for (let i = 0; i + marker.length <= bytes.length; i++) {
+    for (let k = 0; k < marker.length; k++) {
+      if (bytes[i + k] !== marker.charCodeAt(k)) continue search;
+    }
+    let end = i + marker.length;
+    if (bytes[end] === 13) end++;
+    if (bytes[end] === 10) end++;
+    return end;
+  }
+  return -1;
+};
+
+const parseHeader = (header: string, name: string) => {
+  const elements: PlyElement[] = [];
+  let format = "";
+
+  const lines = header.split(/\r?\n|\r/);
+  for (let i = 0; i < lines.length; i++) {
+    const fail: Fail = (message) => {
+      throw new ModelParseError(name, `${name}:${i + 1}: ${message}`);
+    };
+    const [keyword, ...args] = lines[i].trim().split(/\s+/);
+    if (i === 0 && keyword !== "ply") fail("isn't a PLY file");
+
+    const getType = (type: string) => {
+      const known = typeNames[type] ?? type;
+      if (!typeSizes[known]) fail(`unknown type ${type}`);
+      return known;
+    };
+
+    switch (keyword) {
+      case "format":
+        if (args[0] === "binary_big_endian") {
+          fail("big endian PLY files aren't supported");
+        }
+        if (args[0] !== "ascii" && args[0] !== "binary_little_endian") {
+          fail(`unknown format ${args[0]}`);
+        }
+        format = args[0];
+        break;
+      case "element": {
+        const count = Number(args[1]);
+        if (args.length !== 2 || !Number.isInteger(count) || count < 0) {
+          fail("element needs a name and a count");
+        }
+        elements.push({ name: args[0], count, properties: [] });
+        break;
+      }
+      case "property": {
+        const element = elements[elements.length - 1];
+        if (!element) fail("property before any element");
+        if (args[0] === "list") {
+          if (args.length !== 4) {
+            fail("list property needs two types and a name");
+          }
+          element.properties.push({
+            name: args[3],
+            countType: getType(args[1]),
+            type: getType(args[2]),
+          });
+        } else {
+          if (args.length !== 2) fail("property needs a type and a name");
+          element.properties.push({ name: args[1], type: getType(args[0]) });
+        }
+        break;
+      }
+    }
+  }
+
+  if (!format) {
+    throw new ModelParseError(name, `${name}: has no format line`);
+  }
+  return { format, elements };
+};
+
+// Reads one value of a type at a time, from text or little endian binary
+type ReadValue = (type: string) => number;
+
+const createAsciiReader = (
+  body: string,
+  firstLine: number,
+  name: string,
+): ReadValue => {
+  const lines = body.split(/\r?\n|\r/);
+  let line = -1;
+  let tokens: string[] = [];
+  let next = 0;
+
+  return () => {
+    while (next >= tokens.length) {
+      line++;
+      if (line >= lines.length) {
+        throw new ModelParseError(name, `${name}: ends before all elements`);
+      }
+      tokens = lines[line].trim().split(/\s+/).filter(Boolean);
+      next = 0;
+    }
+    const token = tokens[next++];
+    const value = Number(token);
+    if (!Number.isFinite(value)) {
+      throw new ModelParseError(
+        name,
+        `${name}:${firstLine + line}: "${token}" isn't a number`,
+      );
+    }
+    return value;
+  };
+};
+
+const createBinaryReader = (
+  data: ArrayBuffer,
+  start: number,
+  name: string,
+): ReadValue => {
+  const view = new DataView(data);
+  let offset = start;
+
+  return (type) => {
+    if (offset + typeSizes[type] > data.byteLength) {
+      throw new ModelParseError(name, `${name}: ends before all elements`);
+    }
+    const at = offset;
+    offset += typeSizes[type];
+    switch (type) {
+      case "int8":
+        return view.getInt8(at);
+      case "uint8":
+        return view.getUint8(at);
+      case "int16":
+        return view.getInt16(at, true);
+      case "uint16":
+        return view.getUint16(at, true);
+      case "int32":
+        return view.getInt32(at, true);
+      case "uint32":
+        return view.getUint32(at, true);
+      case "float32":
+        return view.getFloat32(at, true);
+      default:
+        return view.getFloat64(at, true);
+    }
+  };
+};
+
+// name is only used in errors
+export const parsePly = (data: ArrayBuffer, name = "model.ply"): PlyFile => {
+  const bytes = new Uint8Array(data);
+  const bodyStart = findBodyStart(bytes);
+  if (bodyStart === -1) {
+    throw new ModelParseError(name, `${name}: has no end_header`);
+  }
+  const header = decodeAscii(bytes.subarray(0, bodyStart));
+  const { format, elements } = parseHeader(header, name);
+
+  const read =
+    format === "ascii"
+      ? createAsciiReader(
+          decodeAscii(bytes.subarray(bodyStart)),
+          header.split(/\r?\n|\r/).length,
+          name,
+        )
+      : createBinaryReader(data, bodyStart, name);
+
+  const vertexElement = elements.find(({ name }) => name === "vertex");
+  for (const axis of ["x", "y", "z"]) {
+    if (vertexElement?.properties.some(({ name }) => name === axis) === false) {
+      throw new ModelParseError(name, `${name}: vertices have no ${axis}`);
+    }
+  }
+  const vertexCount = vertexElement?.count ?? 0;
+  const attributes = {
+    positions: new Float32Array(3 * vertexCount),
+    normals: null as Float32Array | null,
+    colors: null as Float32Array | null,
+    uvs: null as Float32Array | null,
+  };
+  const sizes = { positions: 3, normals: 3, colors: 3, uvs: 2 };
+  const indices: number[] = [];
+
+  for (const element of elements) {
+    // Where each property of the element ends up, null to skip it
+    const targets = element.properties.map((property) => {
+      if (element === vertexElement && !property.countType) {
+        const target = vertexProperties[property.name];
+        if (!target) return null;
+        const [attribute, component] = target;
+        const array = (attributes[attribute] ??= new Float32Array(
+          sizes[attribute] * vertexCount,
+        ));
+        const scale =
+          attribute === "colors" ? (colorScales[property.type] ?? 1) : 1;
+        return { array, stride: sizes[attribute], component, scale };
+      }
+      return null;
+    });
+    const isFace = element.name === "face";
+
+    for (let i = 0; i < element.count; i++) {
+      element.properties.forEach((property, p) => {
+        if (!property.countType) {
+          const value = read(property.type);
+          const target = targets[p];
+          if (target) {
+            target.array[target.stride * i + target.component] =
+              value / target.scale;
+          }
+          return;
+        }
+
+        const count = read(property.countType);
+        const values: number[] = [];
+        for (let k = 0; k < count; k++) values.push(read(property.type));
+        if (!isFace || !faceIndexNames.includes(property.name)) return;
+
+        for (const value of values) {
+          if (!Number.isInteger(value) || value < 0 || value >= vertexCount) {
+            throw new ModelParseError(
+              name,
+              `${name}: face ${i} refers to vertex ${value}, there are ${vertexCount}`,
+            );
+          }
+        }
+        // As a fan, which assumes faces are convex
+        for (let k = 1; k + 1 < values.length; k++) {
+          indices.push(values[0], values[k], values[k + 1]);
+        }
+      });
+    }
+  }
+
+  return { ...attributes, indexData: new Uint32Array(indices) };
+};
+
+// Vertices without colors get color, missing normals are smoothed from the
+// faces
+export const buildPlyMesh = (file: PlyFile, color: Vec3): ModelMesh => {
+  const vertexCount = file.positions.length / 3;
+  const vertexData = new Float32Array(9 * vertexCount);
+  for (let i = 0; i < vertexCount; i++) {
+    vertexData.set(file.positions.subarray(3 * i, 3 * i + 3), 9 * i);
+    if (file.normals) {
+      vertexData.set(file.normals.subarray(3 * i, 3 * i + 3), 9 * i + 3);
+    }
+    vertexData.set(
+      file.colors ? file.colors.subarray(3 * i, 3 * i + 3) : color,
+      9 * i + 6,
+    );
+  }
+  if (!file.normals) setSmoothNormals(vertexData, file.indexData);
+
+  return {
+    vertexData,
+    indexData: file.indexData.slice(),
+    uvData: file.uvs ? file.uvs.slice() : new Float32Array(2 * vertexCount),
+    groups: [
+      {
+        name: "default",
+        material: null,
+        start: 0,
+        count: file.indexData.length,
+      },
+    ],
+  };
+};
@@ -0,0 +1,53 @@
+import { Snapshot } from "./snapshot";
+
+// Keeps the latest capacity snapshots in a ring buffer, frame 0 is the oldest
+// one still recorded
+export default class Recorder {
+  capacity: number;
+
+  private frames: Snapshot[] = [];
+  // Index of frame 0 in frames
+  private start = 0;
+
+  constructor(capacity = 600) {
+    this.capacity = capacity;
+  }
+
+  get length() {
+    return this.frames.length;
+  }
+
+  // Snapshots that aren't newer than the last recorded one are ignored
+  record = (snapshot: Snapshot | null) => {
+    if (!snapshot) return;
+    const last = this.get(this.length - 1);
+    if (last && snapshot.time <= last.time) return;
+
+    if (this.frames.length < this.capacity) {
+      this.frames.push(snapshot);
+    } else {
+      this.frames[this.start] = snapshot;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  };
+
+  get = (frame: number): Snapshot | null => {
+    if (frame < 0 || frame >= this.length) return null;
+    return this.frames[(this.start + frame) % this.frames.length];
+  };
+
+  // Forgets everything after frame, to record a different future from there
+  truncate = (frame: number) => {
+    const kept = Array.from(
+      { length: Math.min(frame + 1, this.length) },
+      (_, i) => this.get(i)!,
+    );
+    this.frames = kept;
+    this.start = 0;
+  };
+
+  clear = () => {
+    this.frames = [];
+    this.start = 0;
+  };
+}
@@ -1,9 +1,10 @@
-import Scene from "./scene";
+import Scene, { ObjectKind } from "./scene";
 import { Mat4, Vec3 } from "gl-matrix";
+import { particleInstanceSize, writeParticleInstances } from "./particles";
 
 const wgsl = String.raw;
 
-class Camera {
+export class Camera {
   p: Vec3;
   target: Vec3;
   up: Vec3;
@@ -101,6 +102,8 @@ class Camera {
     });
 
     this.canvas.addEventListener("mousedown", (e) => {
+      // Shift and right dragging grab the cloth instead
+      if (e.shiftKey || e.button === 2) return;
       this.clicked = true;
       this.lastMouse.x = e.clientX;
       this.lastMouse.y = e.clientY;
@@ -175,8 +178,29 @@ class Camera {
     Vec3.add(this.target, this.target, deltaUp);
   }
 
+  // World space ray through the point at clientX, clientY on the canvas, null
+  // when the view can't be inverted
+  getRay(clientX: number, clientY: number) {
+    const rect = this.canvas.getBoundingClientRect();
+    const ndc = new Vec3(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      1 - ((clientY - rect.top) / rect.height) * 2,
+      1,
+    );
+
+    const inverse = Mat4.invert(Mat4.create(), this.getViewProjectionMatrix());
+    if (!inverse) return null;
+    const farP = Vec3.transformMat4(new Vec3(), ndc, inverse) as Vec3;
+    const direction = farP.sub(this.p).normalize() as Vec3;
+    return { origin: Vec3.clone(this.p), direction };
+  }
+
+  getViewMatrix(): Mat4 {
+    return Mat4.lookAt(Mat4.create(), this.p, this.target, this.up) as Mat4;
+  }
+
   getViewProjectionMatrix(): Mat4 {
-    const viewMatrix = Mat4.lookAt(Mat4.create(), this.p, this.target, this.up);
+    const viewMatrix = this.getViewMatrix();
     const projectionMatrix = Mat4.perspective(
       Mat4.create(),
       this.fov,
@@ -297,9 +321,11 @@ export default class Renderer {
     uniformData.set(this.light.p, 20);
     this.device!.queue.writeBuffer(uniformBuffer, 0, uniformData);
 
-    const instanceData = new Float32Array(scene.objects.length * 3);
+    const instanceData = new Float32Array(scene.objects.length * 7);
     scene.objects.forEach((obj, i) => {
-      instanceData.set([obj.p.x, obj.p.y, obj.p.z], i * 3);
+      const p = obj.render?.p ?? obj.p;
+      const rotation = obj.render?.rotation ?? obj.rotation ?? [0, 0, 0, 1];
+      instanceData.set([...p, ...rotation], i * 7);
     });
 
     scene.objects.forEach((obj, i) => {
@@ -343,11 +369,11 @@ export default class Renderer {
         };
 
         struct VertexInput {
-          @builtin(vertex_index) vI: u32,
           @location(0) p: vec3f,
           @location(1) normal: vec3f,
           @location(2) color: vec3f,
           @location(3) instanceP: vec3f,
+          @location(4) instanceRotation: vec4f,
         };
 
         struct VertexOutput {
@@ -357,14 +383,17 @@ export default class Renderer {
           @location(2) @interpolate(flat) color: vec3f
         };
 
+        fn rotate(q: vec4f, v: vec3f) -> vec3f {
+          let t = 2.0 * cross(q.xyz, v);
+          return v + q.w * t + cross(q.xyz, t);
+        }
+
         @vertex fn vs(input: VertexInput) -> VertexOutput {
           var output: VertexOutput;
-          var worldP = input.p + input.instanceP;  
-          // stop clipping when folded over in Y
-          worldP.y = worldP.y - f32(input.vI) * 0.000001;
+          var worldP = rotate(input.instanceRotation, input.p) + input.instanceP;
           output.p = uniforms.viewProjectionMatrix * vec4f(worldP, 1.0);
           output.worldP = worldP;
-          output.normal = input.normal;
+          output.normal = rotate(input.instanceRotation, input.normal);
           output.color = input.color;
           return output;
         }
@@ -432,8 +461,11 @@ export default class Renderer {
             stepMode: "vertex",
           },
           {
-            arrayStride: 3 * 4,
-            attributes: [{ shaderLocation: 3, offset: 0, format: "float32x3" }],
+            arrayStride: 7 * 4,
+            attributes: [
+              { shaderLocation: 3, offset: 0, format: "float32x3" },
+              { shaderLocation: 4, offset: 3 * 4, format: "float32x4" },
+            ],
             stepMode: "instance",
           },
         ],
@@ -486,15 +518,162 @@ export default class Renderer {
     const pass = encoder.beginRenderPass(renderPassDescriptor);
     pass.setPipeline(pipeline);
     pass.setBindGroup(0, bindGroup);
-    scene.objects.forEach((_, i) => {
+    scene.objects.forEach((obj, i) => {
+      if (!obj.data) return;
       pass.setVertexBuffer(0, this.vertexBuffers[i]);
       pass.setVertexBuffer(1, instanceBuffer);
       pass.setIndexBuffer(this.indexBuffers[i], "uint32");
       pass.drawIndexed(this.indexCounts[i], 1, 0, 0, i);
     });
+    this.drawParticles(pass, scene);
     pass.end();
 
     const commandBuffer = encoder.finish();
     this.device!.queue.submit([commandBuffer]);
   };
+
+  // Every live particle as a quad facing the camera, cut round in the fragment
+  // shader
+  private drawParticles(pass: GPURenderPassEncoder, scene: Scene) {
+    const systems = scene.objects.filter(
+      (obj) => obj.kind === ObjectKind.Particles,
+    );
+    const total = systems.reduce(
+      (sum, obj) => sum + (obj.state?.count ?? 0),
+      0,
+    );
+    if (total === 0) return;
+
+    const instanceData = new Float32Array(total * particleInstanceSize);
+    let count = 0;
+    for (const obj of systems) {
+      count += writeParticleInstances(
+        obj,
+        instanceData,
+        count * particleInstanceSize,
+      );
+    }
+
+    const instanceBuffer = this.device!.createBuffer({
+      label: "particle instance buffer",
+      size: instanceData.byteLength,
+      usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+    });
+    this.device!.queue.writeBuffer(instanceBuffer, 0, instanceData);
+
+    // The first two rows of the view matrix point right and up on screen
+    const view = this.camera.getViewMatrix();
+    const uniformData = new Float32Array(16 + 4 + 4);
+    uniformData.set(this.camera.getViewProjectionMatrix() as Float32Array, 0);
+    uniformData.set([view[0], view[4], view[8]], 16);
+    uniformData.set([view[1], view[5], view[9]], 20);
+    const uniformBuffer = this.device!.createBuffer({
+      size: uniformData.byteLength,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    this.device!.queue.writeBuffer(uniformBuffer, 0, uniformData);
+
+    const module = this.device!.createShaderModule({
+      label: "particle module",
+      code: wgsl`
+        @binding(0) @group(0) var<uniform> uniforms : Uniforms;
+        struct Uniforms {
+          viewProjectionMatrix: mat4x4<f32>,
+          cameraRight: vec3<f32>,
+          cameraUp: vec3<f32>,
+        };
+
+        struct VertexInput {
+          @builtin(vertex_index) vertex: u32,
+          @location(0) p: vec3f,
+          @location(1) size: f32,
+          @location(2) color: vec3f,
+        };
+
+        struct VertexOutput {
+          @builtin(position) p: vec4f,
+          @location(0) corner: vec2f,
+          @location(1) @interpolate(flat) color: vec3f
+        };
+
+        @vertex fn vs(input: VertexInput) -> VertexOutput {
+          var corners = array<vec2f, 6>(
+            vec2f(-1.0, -1.0), vec2f(1.0, -1.0), vec2f(1.0, 1.0),
+            vec2f(-1.0, -1.0), vec2f(1.0, 1.0), vec2f(-1.0, 1.0),
+          );
+          let corner = corners[input.vertex];
+          let offset = corner.x * uniforms.cameraRight + corner.y * uniforms.cameraUp;
+
+          var output: VertexOutput;
+          let worldP = input.p + offset * input.size / 2.0;
+          output.p = uniforms.viewProjectionMatrix * vec4f(worldP, 1.0);
+          output.corner = corner;
+          output.color = input.color;
+          return output;
+        }
+
+        @fragment fn fs(input: VertexOutput) -> @location(0) vec4f {
+          if (dot(input.corner, input.corner) > 1.0) {
+            discard;
+          }
+          return vec4f(input.color, 1.0);
+        }
+`,
+    });
+
+    const bindGroupLayout = this.device!.createBindGroupLayout({
+      entries: [
+        {
+          binding: 0,
+          visibility: GPUShaderStage.VERTEX,
+          buffer: { type: "uniform" },
+        },
+      ],
+    });
+
+    const pipeline = this.device!.createRenderPipeline({
+      layout: this.device!.createPipelineLayout({
+        bindGroupLayouts: [bindGroupLayout],
+      }),
+      vertex: {
+        module,
+        buffers: [
+          {
+            arrayStride: particleInstanceSize * 4,
+            attributes: [
+              { shaderLocation: 0, offset: 0, format: "float32x3" },
+              { shaderLocation: 1, offset: 3 * 4, format: "float32" },
+              { shaderLocation: 2, offset: 4 * 4, format: "float32x3" },
+            ],
+            stepMode: "instance",
+          },
+        ],
+      },
+      fragment: {
+        module,
+        entryPoint: "fs",
+        targets: [{ format: this.textureFormat! }],
+      },
+      primitive: {
+        topology: "triangle-list",
+        cullMode: "none",
+      },
+      depthStencil: {
+        depthWriteEnabled: true,
+        depthCompare: "less",
+        format: "depth24plus",
+      },
+    });
+
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(
+      0,
+      this.device!.createBindGroup({
+        layout: bindGroupLayout,
+        entries: [{ binding: 0, resource: { buffer: uniformBuffer } }],
+      }),
+    );
+    pass.setVertexBuffer(0, instanceBuffer);
+    pass.draw(6, count);
+  }
 }
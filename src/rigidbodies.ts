@@ -0,0 +1,335 @@
+import { Vec3, Quat } from "gl-matrix";
+import { Box, ObjectKind, SceneObject, Sphere } from "./scene";
+import { Collider, Contact, collidePoint } from "./colliders";
+import {
+  PhysicsMaterial,
+  combineMaterials,
+  getPhysicsMaterial,
+} from "./physicsmaterials";
+
+export type RigidBody = Box | Sphere;
+
+interface BodyContact {
+  a: RigidBody;
+  b: SceneObject;
+  point: Vec3;
+  // Points out of b, towards a
+  normal: Vec3;
+  depth: number;
+  friction: number;
+  restitution: number;
+
+  rA: Vec3;
+  rB: Vec3;
+  normalMass: number;
+  targetVN: number;
+  jN: number;
+}
+
+const restitutionThreshold = 0.5;
+const solverIterations = 8;
+const positionSlop = 0.005;
+const positionCorrection = 0.6;
+
+export const isRigidBody = (obj: SceneObject): obj is RigidBody =>
+  (obj.kind === ObjectKind.Box || obj.kind === ObjectKind.Sphere) &&
+  (obj.mass ?? 0) > 0;
+
+const getInvMass = (obj: SceneObject) => (isRigidBody(obj) ? 1 / obj.mass! : 0);
+
+// Scratch values, so stepping doesn't allocate per contact
+const identity = Quat.create();
+const inverseRotation = Quat.create();
+const spin = Quat.create();
+const localInvInertia = new Vec3();
+const pointOffset = new Vec3();
+const localW = new Vec3();
+const torque = new Vec3();
+const rCrossDir = new Vec3();
+const angularA = new Vec3();
+const angularB = new Vec3();
+const velocityB = new Vec3();
+const vRel = new Vec3();
+const impulse = new Vec3();
+const acceleration = new Vec3();
+const material: PhysicsMaterial = { friction: 0, restitution: 0, margin: 0 };
+const pointContact: Contact = { normal: new Vec3(), depth: 0 };
+const boxCorners = Array.from({ length: 8 }, () => new Vec3());
+
+// Reused across steps, stepRigidBodies returns the ones in use
+const contactPool: BodyContact[] = [];
+const contacts: BodyContact[] = [];
+
+const getLocalInvInertia = (body: RigidBody, out: Vec3) => {
+  const m = body.mass!;
+  if (body.kind === ObjectKind.Sphere) {
+    const i = (2 / 5) * m * body.radius * body.radius;
+    return Vec3.set(out, 1 / i, 1 / i, 1 / i) as Vec3;
+  }
+
+  const x = body.length;
+  const y = body.height;
+  const z = body.width;
+  return Vec3.set(
+    out,
+    12 / (m * (y * y + z * z)),
+    12 / (m * (x * x + z * z)),
+    12 / (m * (x * x + y * y)),
+  ) as Vec3;
+};
+
+// Multiplies by the world space inverse inertia tensor R * I^-1 * R^T, zero
+// for anything that isn't a rigid body
+const applyInvInertia = (obj: SceneObject, v: Vec3, out: Vec3): Vec3 => {
+  if (!isRigidBody(obj)) return Vec3.zero(out) as Vec3;
+
+  const rotation = obj.rotation!;
+  Vec3.transformQuat(out, v, Quat.conjugate(inverseRotation, rotation));
+  out.multiply(getLocalInvInertia(obj, localInvInertia));
+  return Vec3.transformQuat(out, out, rotation) as Vec3;
+};
+
+// Linear plus rotational kinetic energy in J
+export const getKineticEnergy = (body: RigidBody) => {
+  let energy = 0.5 * body.mass! * Vec3.squaredLength(body.v);
+  if (!body.w) return energy;
+
+  const rotation = body.rotation ?? identity;
+  Vec3.transformQuat(localW, body.w, Quat.conjugate(inverseRotation, rotation));
+  const invInertia = getLocalInvInertia(body, localInvInertia);
+  for (let axis = 0; axis < 3; axis++) {
+    energy += (0.5 * localW[axis] * localW[axis]) / invInertia[axis];
+  }
+  return energy;
+};
+
+export const getPointVelocity = (
+  obj: SceneObject,
+  point: Vec3,
+  out = new Vec3(),
+): Vec3 => {
+  out.copy(obj.v);
+  if (obj.w) {
+    Vec3.subtract(pointOffset, point, obj.p);
+    out.add(Vec3.cross(pointOffset, obj.w, pointOffset));
+  }
+  return out;
+};
+
+const getBoxCorners = (box: Box) => {
+  boxCorners.forEach((corner, i) => {
+    Vec3.set(
+      corner,
+      ((i & 1 ? 1 : -1) * box.length) / 2,
+      ((i & 2 ? 1 : -1) * box.height) / 2,
+      ((i & 4 ? 1 : -1) * box.width) / 2,
+    );
+    Vec3.transformQuat(corner, corner, box.rotation!);
+    corner.add(box.p);
+  });
+  return boxCorners;
+};
+
+// The next contact from the pool, the caller fills in the rest
+const addContact = (
+  a: RigidBody,
+  b: SceneObject,
+  point: Vec3,
+  contact: Contact,
+) => {
+  const bodyContact = (contactPool[contacts.length] ??= {
+    a,
+    b,
+    point: new Vec3(),
+    normal: new Vec3(),
+    depth: 0,
+    friction: 0,
+    restitution: 0,
+    rA: new Vec3(),
+    rB: new Vec3(),
+    normalMass: 0,
+    targetVN: 0,
+    jN: 0,
+  });
+  bodyContact.a = a;
+  bodyContact.b = b;
+  bodyContact.point.copy(point);
+  bodyContact.normal.copy(contact.normal);
+  bodyContact.depth = contact.depth;
+  contacts.push(bodyContact);
+  return bodyContact;
+};
+
+// Adds the contacts of body with the collider to contacts
+const findContacts = (
+  body: RigidBody,
+  bodyI: number,
+  bodies: RigidBody[],
+  collider: Collider,
+  margin: number,
+) => {
+  const other = collider.object;
+
+  if (body.kind === ObjectKind.Sphere) {
+    // Moving sphere pairs are only tested once
+    if (
+      other.kind === ObjectKind.Sphere &&
+      isRigidBody(other) &&
+      bodies.indexOf(other) < bodyI
+    ) {
+      return;
+    }
+
+    const contact = collidePoint(
+      collider,
+      body.p,
+      body.radius + margin,
+      pointContact,
+    );
+    if (!contact) return;
+    const bodyContact = addContact(body, other, body.p, contact);
+    bodyContact.point.scaleAndAdd(contact.normal, -body.radius);
+    return;
+  }
+
+  // Box against a moving sphere is handled from the sphere's side
+  if (other.kind === ObjectKind.Sphere && isRigidBody(other)) return;
+
+  for (const corner of getBoxCorners(body)) {
+    const contact = collidePoint(collider, corner, margin, pointContact);
+    if (contact) addContact(body, other, corner, contact);
+  }
+};
+
+const applyImpulse = (obj: SceneObject, impulse: Vec3, r: Vec3) => {
+  if (!isRigidBody(obj)) return;
+
+  obj.v.scaleAndAdd(impulse, 1 / obj.mass!);
+  Vec3.cross(torque, r, impulse);
+  obj.w!.add(applyInvInertia(obj, torque, torque));
+};
+
+const getEffectiveMass = (contact: BodyContact, dir: Vec3) => {
+  const { a, b, rA, rB } = contact;
+  Vec3.cross(rCrossDir, rA, dir);
+  Vec3.cross(angularA, applyInvInertia(a, rCrossDir, rCrossDir), rA);
+  Vec3.cross(rCrossDir, rB, dir);
+  Vec3.cross(angularB, applyInvInertia(b, rCrossDir, rCrossDir), rB);
+  const angular = Vec3.dot(angularA, dir) + Vec3.dot(angularB, dir);
+  const k = getInvMass(a) + getInvMass(b) + angular;
+  return k > 0 ? 1 / k : 0;
+};
+
+const getRelativeVelocity = (contact: BodyContact, out: Vec3) =>
+  getPointVelocity(contact.a, contact.point, out).sub(
+    getPointVelocity(contact.b, contact.point, velocityB),
+  );
+
+// Applies impulse to a and its opposite to b
+const applyContactImpulse = (contact: BodyContact, impulse: Vec3) => {
+  applyImpulse(contact.a, impulse, contact.rA);
+  applyImpulse(contact.b, impulse.negate(), contact.rB);
+};
+
+const solveContact = (contact: BodyContact) => {
+  const { normal } = contact;
+
+  getRelativeVelocity(contact, vRel);
+  const vN = vRel.dot(normal);
+
+  const oldJN = contact.jN;
+  contact.jN = Math.max(
+    oldJN + (contact.targetVN - vN) * contact.normalMass,
+    0,
+  );
+  const jN = contact.jN - oldJN;
+  applyContactImpulse(contact, Vec3.scale(impulse, normal, jN) as Vec3);
+
+  // Coulomb friction against the accumulated normal impulse
+  getRelativeVelocity(contact, vRel);
+  const tangent = vRel.scaleAndAdd(normal, -vRel.dot(normal));
+  const vT = tangent.magnitude;
+  if (vT < 1e-6) return;
+  tangent.scale(1 / vT);
+
+  const jT = Math.min(
+    vT * getEffectiveMass(contact, tangent),
+    contact.friction * contact.jN,
+  );
+  applyContactImpulse(contact, Vec3.scale(impulse, tangent, -jT) as Vec3);
+};
+
+const integrate = (body: RigidBody, dt: number) => {
+  body.p.scaleAndAdd(body.v, dt);
+
+  const w = body.w!;
+  Quat.set(spin, w.x, w.y, w.z, 0);
+  Quat.multiply(spin, spin, body.rotation!);
+  Quat.scale(spin, spin, dt / 2);
+  Quat.add(body.rotation!, body.rotation!, spin);
+  Quat.normalize(body.rotation!, body.rotation!);
+};
+
+export const stepRigidBodies = (
+  bodies: RigidBody[],
+  colliders: Collider[],
+  g: Vec3,
+  dt: number,
+) => {
+  for (const body of bodies) {
+    body.rotation ??= Quat.create();
+    body.w ??= new Vec3();
+    body.v.scaleAndAdd(Vec3.add(acceleration, g, body.a), dt);
+  }
+
+  contacts.length = 0;
+  bodies.forEach((body, bodyI) => {
+    for (const collider of colliders) {
+      if (collider.object === body) continue;
+
+      const b = collider.object;
+      combineMaterials(
+        getPhysicsMaterial(body),
+        getPhysicsMaterial(b),
+        material,
+      );
+
+      const first = contacts.length;
+      findContacts(body, bodyI, bodies, collider, material.margin);
+      for (let c = first; c < contacts.length; c++) {
+        const contact = contacts[c];
+        const { point, normal } = contact;
+        contact.friction = material.friction;
+        contact.restitution = material.restitution;
+        Vec3.subtract(contact.rA, point, body.p);
+        Vec3.subtract(contact.rB, point, b.p);
+        contact.jN = 0;
+        contact.normalMass = getEffectiveMass(contact, normal);
+
+        const vN = getRelativeVelocity(contact, vRel).dot(normal);
+        contact.targetVN =
+          vN < -restitutionThreshold ? -contact.restitution * vN : 0;
+      }
+    }
+  });
+
+  for (let iteration = 0; iteration < solverIterations; iteration++) {
+    contacts.forEach(solveContact);
+  }
+
+  for (const body of bodies) integrate(body, dt);
+
+  // Push remaining penetration apart, split by inverse mass
+  for (const { a, b, normal, depth } of contacts) {
+    const invMassA = getInvMass(a);
+    const invMassB = getInvMass(b);
+    const correction =
+      (Math.max(depth - positionSlop, 0) * positionCorrection) /
+      (invMassA + invMassB);
+
+    a.p.scaleAndAdd(normal, correction * invMassA);
+    if (isRigidBody(b)) b.p.scaleAndAdd(normal, -correction * invMassB);
+  }
+  // Only valid until the next step
+  return contacts;
+};
@@ -1,10 +1,26 @@
-import { Vec3, Vec2 } from "gl-matrix";
+import { Vec3, Vec2, Quat } from "gl-matrix";
+import { ForceField } from "./forces";
+import { PhysicsMaterial } from "./physicsmaterials";
+import {
+  ClothState,
+  addClothConstraint,
+  addClothVertex,
+  createClothState,
+} from "./clothstate";
+import { ParticleState, createParticleState } from "./particles";
+import { MeshGroup } from "./modelmesh";
+import AssetManager from "./assetmanager";
 
 export enum ObjectKind {
   Box,
   Sphere,
   Model,
   Cloth,
+  Capsule,
+  Plane,
+  Rope,
+  SoftBody,
+  Particles,
 }
 
 interface CommonObjectProps {
@@ -12,6 +28,22 @@ interface CommonObjectProps {
   p: Vec3;
   v: Vec3;
   a: Vec3;
+  rotation?: Quat;
+
+  // Spheres and boxes with a mass are simulated as rigid bodies, w is their
+  // angular velocity
+  mass?: number;
+  w?: Vec3;
+
+  // Transform the renderer draws instead of p and rotation, blended between
+  // simulation steps
+  render?: { p: Vec3; rotation: Quat };
+
+  // Boxes, spheres, capsules and planes collide unless this is false
+  collidable?: boolean;
+  // Friction, restitution and margin of contacts, see getPhysicsMaterial for
+  // the defaults
+  physicsMaterial?: PhysicsMaterial;
 
   data?: { vertexData: Float32Array; indexData: Uint32Array };
 }
@@ -33,50 +65,402 @@ export interface Sphere extends CommonObjectProps {
 
 export interface Model extends CommonObjectProps {
   kind: ObjectKind.Model;
+  // Of an OBJ, glTF, GLB, STL or PLY file, relative to the page
   filepath: string;
+  // Filled in by the loader, u and v of every vertex and the sub-meshes of the
+  // file
+  uvData?: Float32Array;
+  groups?: MeshGroup[];
+}
+
+// Holds a cloth vertex at a fixed world position, p defaults to where the
+// vertex starts
+export interface ClothPin {
+  vertex: number;
+  p?: Vec3;
+}
+
+// Makes a cloth vertex follow scene.objects[object], offset is in the object's
+// local frame and defaults to the vertex's offset when the simulation starts
+export interface ClothAttachment {
+  vertex: number;
+  object: number;
+  offset?: Vec3;
+}
+
+// Compliances are inverse stiffnesses in m/N, 0 is perfectly stiff
+export interface ClothMaterial {
+  // kg/m^2
+  density: number;
+  stretchCompliance: number;
+  shearCompliance: number;
+  bendCompliance: number;
+  // Aerodynamic coefficients, default to 1 and 0.5
+  dragCoefficient?: number;
+  liftCoefficient?: number;
+}
+
+export const ClothMaterials = {
+  silk: {
+    density: 0.08,
+    stretchCompliance: 1e-6,
+    shearCompliance: 1e-4,
+    bendCompliance: 5e-2,
+  },
+  cotton: {
+    density: 0.15,
+    stretchCompliance: 1e-7,
+    shearCompliance: 1e-5,
+    bendCompliance: 5e-3,
+  },
+  denim: {
+    density: 0.4,
+    stretchCompliance: 0,
+    shearCompliance: 1e-6,
+    bendCompliance: 2e-4,
+  },
+} satisfies Record<string, ClothMaterial>;
+
+// density is in kg/m along the rope, compliances work like ClothMaterial's
+export interface RopeMaterial {
+  density: number;
+  stretchCompliance: number;
+  bendCompliance: number;
+  // Of the strands as cylinders across the wind, defaults to 1.2
+  dragCoefficient?: number;
+}
+
+export const RopeMaterials = {
+  rope: { density: 0.1, stretchCompliance: 1e-7, bendCompliance: 1e-2 },
+  chain: { density: 2, stretchCompliance: 0, bendCompliance: 1 },
+  hair: { density: 0.001, stretchCompliance: 1e-6, bendCompliance: 1e-4 },
+} satisfies Record<string, RopeMaterial>;
+
+export enum ConstraintKind {
+  Stretch,
+  Shear,
+  Bend,
 }
 
+// A rectangular grid in the local XZ plane, or the triangles of shape's mesh
+// when it's set
 export interface Cloth extends CommonObjectProps {
   kind: ObjectKind.Cloth;
+  // Of the grid, required without a shape
+  length?: number;
+  width?: number;
+  divisions?: Vec2;
+  // Only its mesh is used, in the cloth's frame. Its split vertices are
+  // welded and rotation is baked into the particles when they're created,
+  // moving it to bakedRotation.
+  shape?: MeshObject;
+  pins?: ClothPin[];
+  attachments?: ClothAttachment[];
+  // Defaults to true
+  selfCollision?: boolean;
+  // Defaults to cotton
+  material?: ClothMaterial;
+  // Constraints stretched past restLength * tearRatio break, never when unset
+  tearRatio?: number;
+
+  state?: ClothState;
+  // Of the cloth when the particles were created, m^2
+  restArea?: number;
+  // The rotation shape's mesh was turned by to make the particles
+  bakedRotation?: Quat;
+}
+
+// One or more strands of segments + 1 particles, each starting at p plus its
+// root and running length along direction. Many thin strands make hair or
+// grass, pinning the first two particles of a strand holds it upright.
+export interface Rope extends CommonObjectProps {
+  kind: ObjectKind.Rope;
+  length: number;
+  segments: number;
+  // Of the tube the strands are drawn as
+  radius: number;
+  // Vertices around the tube, defaults to 6
+  sides?: number;
+  // Defaults to +X
+  direction?: Vec3;
+  // Defaults to a single strand at p
+  roots?: Vec3[];
+  pins?: ClothPin[];
+  attachments?: ClothAttachment[];
+  // Defaults to rope
+  material?: RopeMaterial;
+
+  state?: ClothState;
+}
+
+// density is in kg/m^3 of the enclosed volume. volumeCompliance is in m^3/N,
+// how much the volume gives when squeezed.
+export interface SoftBodyMaterial {
+  density: number;
+  stretchCompliance: number;
+  bendCompliance: number;
+  volumeCompliance: number;
+  // Aerodynamic coefficients of the surface, default to 1 and 0.5
+  dragCoefficient?: number;
+  liftCoefficient?: number;
+}
+
+export const SoftBodyMaterials = {
+  balloon: {
+    density: 5,
+    stretchCompliance: 1e-5,
+    bendCompliance: 1e-2,
+    volumeCompliance: 0,
+  },
+  jelly: {
+    density: 1000,
+    stretchCompliance: 1e-4,
+    bendCompliance: 1e-3,
+    volumeCompliance: 1e-6,
+  },
+  rubber: {
+    density: 1100,
+    stretchCompliance: 1e-7,
+    bendCompliance: 1e-5,
+    volumeCompliance: 0,
+  },
+} satisfies Record<string, SoftBodyMaterial>;
+
+// The surface of a closed mesh as particles joined along its edges, holding
+// on to its volume. Only shape's mesh is used, like a mesh Cloth's.
+export interface SoftBody extends CommonObjectProps {
+  kind: ObjectKind.SoftBody;
+  shape: Exclude<MeshObject, Plane>;
+  // Volume kept as a multiple of the mesh's, above 1 inflates it. Defaults
+  // to 1.
+  pressure?: number;
+  pins?: ClothPin[];
+  attachments?: ClothAttachment[];
+  // Defaults to jelly
+  material?: SoftBodyMaterial;
+
+  state?: ClothState;
+  // Of the mesh when the particles were created, m^3
+  restVolume?: number;
+  // The rotation shape's mesh was turned by to make the particles
+  bakedRotation?: Quat;
+}
+
+// Cloth, ropes and soft bodies, simulated as particles and distance
+// constraints
+export type ParticleObject = Cloth | Rope | SoftBody;
+
+export const isParticleObject = (obj: SceneObject): obj is ParticleObject =>
+  obj.kind === ObjectKind.Cloth ||
+  obj.kind === ObjectKind.Rope ||
+  obj.kind === ObjectKind.SoftBody;
+
+// Compliance of each ConstraintKind
+export const getCompliances = (
+  obj: ParticleObject,
+  out = new Float64Array(3),
+) => {
+  if (obj.kind === ObjectKind.Rope) {
+    const material = obj.material ?? RopeMaterials.rope;
+    out[ConstraintKind.Stretch] = material.stretchCompliance;
+    out[ConstraintKind.Shear] = 0;
+    out[ConstraintKind.Bend] = material.bendCompliance;
+  } else if (obj.kind === ObjectKind.SoftBody) {
+    const material = obj.material ?? SoftBodyMaterials.jelly;
+    out[ConstraintKind.Stretch] = material.stretchCompliance;
+    out[ConstraintKind.Shear] = 0;
+    out[ConstraintKind.Bend] = material.bendCompliance;
+  } else {
+    const material = obj.material ?? ClothMaterials.cotton;
+    out[ConstraintKind.Stretch] = material.stretchCompliance;
+    out[ConstraintKind.Shear] = material.shearCompliance;
+    out[ConstraintKind.Bend] = material.bendCompliance;
+  }
+  return out;
+};
+
+// Mass of the whole object in kg
+export const getParticleObjectMass = (obj: ParticleObject) => {
+  if (obj.kind === ObjectKind.Rope) {
+    const material = obj.material ?? RopeMaterials.rope;
+    return material.density * obj.length * (obj.roots?.length ?? 1);
+  }
+  if (obj.kind === ObjectKind.SoftBody) {
+    const material = obj.material ?? SoftBodyMaterials.jelly;
+    return material.density * obj.restVolume! * (obj.pressure ?? 1);
+  }
+  const material = obj.material ?? ClothMaterials.cotton;
+  return material.density * obj.restArea!;
+};
+
+// Capsule axis is the local Y axis, height is the length of the cylinder part
+export interface Capsule extends CommonObjectProps {
+  kind: ObjectKind.Capsule;
+  radius: number;
+  height: number;
+  hPrec: number;
+  vPrec: number;
+}
+
+// Infinite for collisions along the local +Y normal, length and width only size the mesh
+export interface Plane extends CommonObjectProps {
+  kind: ObjectKind.Plane;
   length: number;
   width: number;
-  divisions: Vec2;
+}
 
-  vertices?: {
-    p: Vec3;
-    lastP: Vec3;
-    a: Vec3;
-  }[];
+export enum EmitterKind {
+  Point,
+  Sphere,
+  Box,
+  Mesh,
 }
 
+// Where new particles appear, around the particle object's p and rotation
+export type ParticleEmitter =
+  | { kind: EmitterKind.Point }
+  | { kind: EmitterKind.Sphere; radius: number }
+  | { kind: EmitterKind.Box; size: Vec3 }
+  // Anywhere on the surface of scene.objects[object], evenly by area
+  | { kind: EmitterKind.Mesh; object: number };
+
+// Points emitted at rate per second that fall, collide and disappear after
+// lifetime seconds. They're simulated in world space, so moving the emitter
+// leaves the ones already out behind.
+export interface Particles extends CommonObjectProps {
+  kind: ObjectKind.Particles;
+  emitter: ParticleEmitter;
+  rate: number;
+  lifetime: number;
+  // Initial velocity, plus a random one up to velocitySpread m/s long
+  velocity: Vec3;
+  velocitySpread?: number;
+  // Spread evenly from birth to death, default to color and 0.05 m across
+  colorOverLife?: Vec3[];
+  sizeOverLife?: number[];
+  // None are emitted while this many are alive, defaults to 1000
+  maxParticles?: number;
+  // Of the random numbers, defaults to 1
+  seed?: number;
+  // How quickly particles take on the wind's velocity, or come to rest in
+  // still air, 1/s. Defaults to 1.
+  drag?: number;
+
+  state?: ParticleState;
+}
+
+// Objects with a fixed mesh that cloth and soft bodies can be made of
+export type MeshObject = Box | Sphere | Capsule | Plane | Model;
+
+export type SceneObject =
+  Box | Sphere | Model | Cloth | Capsule | Plane | Rope | SoftBody | Particles;
+
 export default class Scene {
-  objects: (Box | Sphere | Model | Cloth)[] = [];
+  objects: SceneObject[] = [];
+  forces: ForceField[] = [];
 
-  constructor(objects: (Box | Sphere | Model | Cloth)[]) {
+  constructor(objects: SceneObject[], forces: ForceField[] = []) {
     this.objects = objects;
+    this.forces = forces;
   }
 
+  // Fetches and parses the model files of the scene
+  assets = new AssetManager();
+
+  // Builds the meshes of all objects in parallel. Rejects with the first
+  // error, once everything else has finished.
   getVertices = async () => {
-    for (const obj of this.objects) {
-      switch (obj.kind) {
-        case ObjectKind.Box:
-          createBoxVertices(obj);
-          break;
-        case ObjectKind.Sphere:
-          createSphereVertices(obj);
-          break;
-        case ObjectKind.Model:
-          let content = await fetch("teapot.obj").then((res) => res.text());
-          createObjModelVertices(obj, content);
-          break;
-        case ObjectKind.Cloth:
-          createClothVertices(obj);
-          break;
-      }
+    const results = await Promise.allSettled(
+      this.objects.map((obj, i) => createVertices(obj, this.assets, i)),
+    );
+    for (const result of results) {
+      if (result.status === "rejected") throw result.reason;
     }
+    this.objects.forEach((obj, i) => {
+      if (isParticleObject(obj)) checkLinks(obj, i, this.objects.length);
+    });
   };
 }
 
+// Throws unless obj's pins and attachments refer to its own particles and to
+// other objects of the scene, so bad indices don't fail inside the solver.
+// object is obj's index in scene.objects.
+const checkLinks = (
+  obj: ParticleObject,
+  object: number,
+  objectCount: number,
+) => {
+  const { vertexCount } = obj.state!;
+  const check = (at: string, index: number, count: number, of: string) => {
+    if (!Number.isInteger(index) || index < 0 || index >= count) {
+      throw new Error(
+        `Object ${object}: ${at} is ${index}, but there are only ${count} ${of}`,
+      );
+    }
+  };
+
+  obj.pins?.forEach((pin, i) =>
+    check(`pins[${i}].vertex`, pin.vertex, vertexCount, "particles"),
+  );
+  obj.attachments?.forEach((attachment, i) => {
+    const at = `attachments[${i}]`;
+    check(`${at}.vertex`, attachment.vertex, vertexCount, "particles");
+    check(`${at}.object`, attachment.object, objectCount, "objects");
+    if (attachment.object === object) {
+      throw new Error(`Object ${object}: ${at}.object is the object itself`);
+    }
+  });
+};
+
+// object is obj's index in scene.objects, or that of the object it's the shape
+// of
+const createVertices = async (
+  obj: SceneObject,
+  assets: AssetManager,
+  object: number,
+) => {
+  switch (obj.kind) {
+    case ObjectKind.Box:
+      createBoxVertices(obj);
+      break;
+    case ObjectKind.Sphere:
+      createSphereVertices(obj);
+      break;
+    case ObjectKind.Model: {
+      const mesh = await assets.loadModel(obj.filepath, obj.color, object);
+      obj.data = { vertexData: mesh.vertexData, indexData: mesh.indexData };
+      obj.uvData = mesh.uvData;
+      obj.groups = mesh.groups;
+      break;
+    }
+    case ObjectKind.Cloth:
+      if (obj.shape) {
+        await createVertices(obj.shape, assets, object);
+        createMeshParticles(obj, obj.shape);
+      } else {
+        createClothVertices(obj);
+      }
+      obj.restArea = getMeshArea(obj.state!.positions, obj.data!.indexData);
+      break;
+    case ObjectKind.Capsule:
+      createCapsuleVertices(obj);
+      break;
+    case ObjectKind.Plane:
+      createPlaneVertices(obj);
+      break;
+    case ObjectKind.Rope:
+      createRopeVertices(obj);
+      break;
+    case ObjectKind.SoftBody:
+      await createVertices(obj.shape, assets, object);
+      createSoftBodyVertices(obj);
+      break;
+    case ObjectKind.Particles:
+      obj.state = createParticleState(obj.maxParticles ?? 1000, obj.seed);
+      break;
+  }
+};
+
 const createFaceVertices = (
   box: Box,
   uAxis: number,
@@ -255,39 +639,121 @@ const createSphereVertices = (sphere: Sphere) => {
   sphere.data = { vertexData, indexData };
 };
 
-const createObjModelVertices = (model: Model, content: string) => {
-  const lines = content.split("\n");
+const createCapsuleVertices = (capsule: Capsule) => {
+  const r = capsule.radius,
+    halfHeight = capsule.height / 2,
+    hPrecision = capsule.hPrec,
+    ringsPerCap = Math.max(1, Math.ceil(capsule.vPrec / 2));
+
+  // Each hemisphere ends in a ring on the equator, the band between the two
+  // equator rings is the cylinder
+  const rings: { phi: number; y: number }[] = [];
+  for (let i = 1; i <= ringsPerCap; i++) {
+    const phi = (i / ringsPerCap) * (Math.PI / 2);
+    rings.push({ phi, y: halfHeight });
+  }
+  for (let i = 0; i < ringsPerCap; i++) {
+    const phi = Math.PI / 2 + (i / ringsPerCap) * (Math.PI / 2);
+    rings.push({ phi, y: -halfHeight });
+  }
+  const ringCount = rings.length;
+
+  const vertexCount = 2 + hPrecision * ringCount;
+  const vertexData = new Float32Array(vertexCount * 9);
+  let vI = 0;
+
+  // Top pole
+  vertexData.set([0, r + halfHeight, 0, 0, 1, 0, ...capsule.color], vI);
+  vI += 9;
+
+  for (const { phi, y } of rings) {
+    const ny = Math.cos(phi);
+    const rAdj = Math.sin(phi);
 
-  let verts = [];
-  let idx = [];
+    for (let hStep = 0; hStep < hPrecision; hStep++) {
+      const theta = (hStep / hPrecision) * 2 * Math.PI;
+      const nx = Math.cos(theta) * rAdj;
+      const nz = Math.sin(theta) * rAdj;
 
-  for (const line of lines) {
-    let [command, ...values] = line.split(" ");
-    if (command == "v") {
-      let vs = [...values.map((v) => Number(v))];
-      verts.push(...vs, ...new Vec3(...vs).normalize(), ...model.color);
-    } else if (command == "f") {
-      let vs = [...values.map((v) => Number(v) - 1)];
-      idx.push(...vs);
+      vertexData.set(
+        [nx * r, ny * r + y, nz * r, nx, ny, nz, ...capsule.color],
+        vI,
+      );
+      vI += 9;
     }
   }
 
-  const vertexData = new Float32Array(verts);
-  const indexData = new Uint32Array(idx);
+  // Bottom pole
+  vertexData.set([0, -r - halfHeight, 0, 0, -1, 0, ...capsule.color], vI);
+
+  const indexData = new Uint32Array(ringCount * hPrecision * 6);
+  let iI = 0;
 
-  model.data = { vertexData, indexData };
+  // Top cap
+  for (let i = 0; i < hPrecision; i++) {
+    indexData.set([((i + 1) % hPrecision) + 1, i + 1, 0], iI);
+    iI += 3;
+  }
+
+  // Rings and cylinder band
+  for (let v = 0; v < ringCount - 1; v++) {
+    for (let h = 0; h < hPrecision; h++) {
+      const topLeft = v * hPrecision + h + 1;
+      const topRight = v * hPrecision + ((h + 1) % hPrecision) + 1;
+      const bottomLeft = (v + 1) * hPrecision + h + 1;
+      const bottomRight = (v + 1) * hPrecision + ((h + 1) % hPrecision) + 1;
+
+      indexData.set([topRight, bottomLeft, topLeft], iI);
+      iI += 3;
+      indexData.set([bottomRight, bottomLeft, topRight], iI);
+      iI += 3;
+    }
+  }
+
+  // Bottom cap
+  const lastIndex = vertexCount - 1;
+  for (let i = 0; i < hPrecision; i++) {
+    indexData.set(
+      [
+        lastIndex,
+        lastIndex - hPrecision + i,
+        lastIndex - hPrecision + ((i + 1) % hPrecision),
+      ],
+      iI,
+    );
+    iI += 3;
+  }
+
+  capsule.data = { vertexData, indexData };
+};
+
+const createPlaneVertices = (plane: Plane) => {
+  const [l, w] = [plane.length / 2, plane.width / 2];
+
+  // prettier-ignore
+  const vertexData = new Float32Array([
+    -l, 0, -w, 0, 1, 0, ...plane.color,
+     l, 0, -w, 0, 1, 0, ...plane.color,
+     l, 0,  w, 0, 1, 0, ...plane.color,
+    -l, 0,  w, 0, 1, 0, ...plane.color,
+  ]);
+  const indexData = new Uint32Array([0, 3, 2, 0, 2, 1]);
+
+  plane.data = { vertexData, indexData };
 };
 
 const createClothVertices = (cloth: Cloth) => {
   const divisions = cloth.divisions ?? new Vec2(1, 1);
+  const length = cloth.length!;
+  const width = cloth.width!;
 
   const verts = [];
   const idx = [];
 
   for (let iY = 0; iY <= divisions.y; iY++) {
-    let z = (iY / divisions.y) * cloth.length - cloth.length / 2;
+    let z = (iY / divisions.y) * length - length / 2;
     for (let iX = 0; iX <= divisions.x; iX++) {
-      let x = (iX / divisions.x) * cloth.width - cloth.width / 2;
+      let x = (iX / divisions.x) * width - width / 2;
 
       let t = (iX / divisions.x + iY / divisions.y) / 2;
 
@@ -319,14 +785,322 @@ const createClothVertices = (cloth: Cloth) => {
   const vertexData = new Float32Array(verts);
   const indexData = new Uint32Array(idx);
 
-  cloth.vertices = [];
+  const vXCount = divisions.x + 1;
+  const vZCount = divisions.y + 1;
+  const state = createClothState(vXCount * vZCount, 6 * vXCount * vZCount);
   for (let i = 0; i < verts.length; i += 9) {
-    cloth.vertices.push({
-      p: new Vec3(verts[i], verts[i + 1], verts[i + 2]),
-      lastP: new Vec3(verts[i], verts[i + 1], verts[i + 2]),
-      a: new Vec3(0, 0, 0),
-    });
+    addClothVertex(state, verts[i], verts[i + 1], verts[i + 2]);
   }
 
+  cloth.state = state;
+  createClothConstraints(state, vXCount, vZCount);
   cloth.data = { vertexData, indexData };
 };
+
+const createClothConstraints = (
+  state: ClothState,
+  vXCount: number,
+  vZCount: number,
+) => {
+  const add = (kind: ConstraintKind, a: number, b: number) =>
+    addClothConstraint(state, kind, a, b);
+
+  for (let vZI = 0; vZI < vZCount; vZI++) {
+    for (let vXI = 0; vXI < vXCount; vXI++) {
+      const i = vZI * vXCount + vXI;
+
+      if (vXI < vXCount - 1) add(ConstraintKind.Stretch, i, i + 1);
+      if (vZI < vZCount - 1) add(ConstraintKind.Stretch, i, i + vXCount);
+
+      if (vXI < vXCount - 1 && vZI < vZCount - 1) {
+        add(ConstraintKind.Shear, i, i + vXCount + 1);
+        add(ConstraintKind.Shear, i + 1, i + vXCount);
+      }
+
+      if (vXI < vXCount - 2) add(ConstraintKind.Bend, i, i + 2);
+      if (vZI < vZCount - 2) add(ConstraintKind.Bend, i, i + 2 * vXCount);
+    }
+  }
+};
+
+// Grid vertices are laid out row by row, iX along the width and iZ along the
+// length. Only for grid cloth, like the helpers below.
+export const getClothVertexIndex = (cloth: Cloth, iX: number, iZ: number) =>
+  iZ * (cloth.divisions!.x + 1) + iX;
+
+export const getClothCorners = (cloth: Cloth) => {
+  const { x, y } = cloth.divisions!;
+  return [
+    getClothVertexIndex(cloth, 0, 0),
+    getClothVertexIndex(cloth, x, 0),
+    getClothVertexIndex(cloth, 0, y),
+    getClothVertexIndex(cloth, x, y),
+  ];
+};
+
+export const getClothEdge = (
+  cloth: Cloth,
+  edge: "top" | "right" | "bottom" | "left",
+) => {
+  const divisions = cloth.divisions!;
+  const indices: number[] = [];
+  switch (edge) {
+    case "top":
+    case "bottom":
+      for (let iX = 0; iX <= divisions.x; iX++) {
+        const iZ = edge === "top" ? 0 : divisions.y;
+        indices.push(getClothVertexIndex(cloth, iX, iZ));
+      }
+      break;
+    case "left":
+    case "right":
+      for (let iZ = 0; iZ <= divisions.y; iZ++) {
+        const iX = edge === "left" ? 0 : divisions.x;
+        indices.push(getClothVertexIndex(cloth, iX, iZ));
+      }
+      break;
+  }
+  return indices;
+};
+
+export const getRopeVertexIndex = (rope: Rope, strand: number, i: number) =>
+  strand * (rope.segments + 1) + i;
+
+// The first or last particle of every strand
+export const getRopeEnds = (rope: Rope, end: "start" | "end") =>
+  (rope.roots ?? [new Vec3()]).map((_, strand) =>
+    getRopeVertexIndex(rope, strand, end === "start" ? 0 : rope.segments),
+  );
+
+const createRopeVertices = (rope: Rope) => {
+  const roots = rope.roots ?? [new Vec3()];
+  const direction = Vec3.clone(rope.direction ?? new Vec3(1, 0, 0));
+  direction.normalize();
+  const segmentLength = rope.length / rope.segments;
+
+  const particleCount = roots.length * (rope.segments + 1);
+  const state = createClothState(particleCount, 2 * particleCount);
+  for (const root of roots) {
+    for (let i = 0; i <= rope.segments; i++) {
+      const p = Vec3.scaleAndAdd(
+        new Vec3(),
+        root,
+        direction,
+        i * segmentLength,
+      );
+      addClothVertex(state, p[0], p[1], p[2]);
+    }
+  }
+
+  roots.forEach((_, strand) => {
+    for (let i = 0; i < rope.segments; i++) {
+      const a = getRopeVertexIndex(rope, strand, i);
+      addClothConstraint(state, ConstraintKind.Stretch, a, a + 1);
+      if (i < rope.segments - 1) {
+        addClothConstraint(state, ConstraintKind.Bend, a, a + 2);
+      }
+    }
+  });
+
+  const sides = rope.sides ?? 6;
+  const ringCount = rope.segments + 1;
+  const idx = [];
+  for (let strand = 0; strand < roots.length; strand++) {
+    for (let i = 0; i < rope.segments; i++) {
+      const ring = (strand * ringCount + i) * sides;
+      for (let side = 0; side < sides; side++) {
+        const a = ring + side;
+        const b = ring + ((side + 1) % sides);
+        idx.push(a, b, a + sides, b, b + sides, a + sides);
+      }
+    }
+  }
+
+  const vertexData = new Float32Array(particleCount * sides * 9);
+  for (let v = 0; v < vertexData.length; v += 9) {
+    vertexData.set(rope.color, v + 6);
+  }
+
+  rope.state = state;
+  rope.data = { vertexData, indexData: new Uint32Array(idx) };
+  updateRopeMesh(rope);
+};
+
+const tangent = new Vec3();
+const ringNormal = new Vec3();
+const ringBinormal = new Vec3();
+
+// Rebuilds the tube around every strand from the particles. Ring frames are
+// carried along the strand so the tube doesn't twist.
+export const updateRopeMesh = (rope: Rope) => {
+  const { positions: p } = rope.state!;
+  const vertexData = rope.data!.vertexData;
+  const sides = rope.sides ?? 6;
+  const strands = rope.roots?.length ?? 1;
+
+  for (let strand = 0; strand < strands; strand++) {
+    ringNormal.set([0, 0, 0]);
+
+    for (let i = 0; i <= rope.segments; i++) {
+      const a = 3 * getRopeVertexIndex(rope, strand, Math.max(i - 1, 0));
+      const b =
+        3 * getRopeVertexIndex(rope, strand, Math.min(i + 1, rope.segments));
+      tangent.set([p[b] - p[a], p[b + 1] - p[a + 1], p[b + 2] - p[a + 2]]);
+      tangent.normalize();
+
+      // Take the previous ring's normal off the new tangent, or start from
+      // any axis far enough from it
+      ringNormal.scaleAndAdd(tangent, -Vec3.dot(ringNormal, tangent));
+      if (Vec3.squaredLength(ringNormal) < 1e-8) {
+        ringNormal.set(Math.abs(tangent[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0]);
+        ringNormal.scaleAndAdd(tangent, -Vec3.dot(ringNormal, tangent));
+      }
+      ringNormal.normalize();
+      Vec3.cross(ringBinormal, tangent, ringNormal);
+
+      const k = 3 * getRopeVertexIndex(rope, strand, i);
+      for (let side = 0; side < sides; side++) {
+        const angle = (2 * Math.PI * side) / sides;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const v = (getRopeVertexIndex(rope, strand, i) * sides + side) * 9;
+
+        for (let axis = 0; axis < 3; axis++) {
+          const normal = cos * ringNormal[axis] + sin * ringBinormal[axis];
+          vertexData[v + axis] = p[k + axis] + rope.radius * normal;
+          vertexData[v + 3 + axis] = normal;
+        }
+      }
+    }
+  }
+};
+
+// Signed volume enclosed by the triangles, positive when they wind counter-
+// clockwise seen from outside
+export const getMeshVolume = (p: Float32Array, indexData: Uint32Array) => {
+  let volume = 0;
+  for (let i = 0; i < indexData.length; i += 3) {
+    const a = 3 * indexData[i];
+    const b = 3 * indexData[i + 1];
+    const c = 3 * indexData[i + 2];
+    volume +=
+      p[a] * (p[b + 1] * p[c + 2] - p[b + 2] * p[c + 1]) +
+      p[a + 1] * (p[b + 2] * p[c] - p[b] * p[c + 2]) +
+      p[a + 2] * (p[b] * p[c + 1] - p[b + 1] * p[c]);
+  }
+  return volume / 6;
+};
+
+// Gets the area of the triangles
+export const getMeshArea = (p: Float32Array, indexData: Uint32Array) => {
+  let area = 0;
+  for (let i = 0; i < indexData.length; i += 3) {
+    const a = 3 * indexData[i];
+    const b = 3 * indexData[i + 1];
+    const c = 3 * indexData[i + 2];
+    const e1x = p[b] - p[a],
+      e1y = p[b + 1] - p[a + 1],
+      e1z = p[b + 2] - p[a + 2];
+    const e2x = p[c] - p[a],
+      e2y = p[c + 1] - p[a + 1],
+      e2z = p[c + 2] - p[a + 2];
+    area += Math.hypot(
+      e1y * e2z - e1z * e2y,
+      e1z * e2x - e1x * e2z,
+      e1x * e2y - e1y * e2x,
+    );
+  }
+  return area / 2;
+};
+
+// Turns the mesh of shape into particles of obj, stretch constraints along
+// every edge and bend constraints across every edge between two triangles.
+// obj's rotation is baked into the particles and kept as bakedRotation, which
+// is used instead when they're created again.
+const createMeshParticles = (obj: Cloth | SoftBody, shape: MeshObject) => {
+  const { vertexData: shapeVertices, indexData: shapeIndices } = shape.data!;
+  const rotation = obj.bakedRotation ?? obj.rotation ?? Quat.create();
+
+  // Meshes split vertices along hard edges and seams, weld them back together
+  // so the surface is one piece
+  const particles = new Map<string, number>();
+  const remap = new Uint32Array(shapeVertices.length / 9);
+  const verts: number[] = [];
+  const p = new Vec3();
+  for (let i = 0; i < remap.length; i++) {
+    p.set(shapeVertices.subarray(9 * i, 9 * i + 3));
+    const key = `${p[0].toFixed(5)},${p[1].toFixed(5)},${p[2].toFixed(5)}`;
+    let particle = particles.get(key);
+    if (particle === undefined) {
+      particle = particles.size;
+      particles.set(key, particle);
+      Vec3.transformQuat(p, p, rotation);
+      verts.push(...p);
+    }
+    remap[i] = particle;
+  }
+
+  const idx: number[] = [];
+  for (let i = 0; i < shapeIndices.length; i += 3) {
+    const [a, b, c] = [0, 1, 2].map((j) => remap[shapeIndices[i + j]]);
+    if (a !== b && b !== c && c !== a) idx.push(a, b, c);
+  }
+
+  const vertexCount = particles.size;
+  const edgeOpposites = new Map<number, number[]>();
+  for (let i = 0; i < idx.length; i += 3) {
+    for (let j = 0; j < 3; j++) {
+      const a = idx[i + j];
+      const b = idx[i + ((j + 1) % 3)];
+      const key = Math.min(a, b) * vertexCount + Math.max(a, b);
+      const opposites = edgeOpposites.get(key) ?? [];
+      opposites.push(idx[i + ((j + 2) % 3)]);
+      edgeOpposites.set(key, opposites);
+    }
+  }
+
+  const state = createClothState(vertexCount, 2 * edgeOpposites.size);
+  for (let i = 0; i < verts.length; i += 3) {
+    addClothVertex(state, verts[i], verts[i + 1], verts[i + 2]);
+  }
+  for (const [key, opposites] of edgeOpposites) {
+    const a = Math.floor(key / vertexCount);
+    addClothConstraint(state, ConstraintKind.Stretch, a, key % vertexCount);
+    if (opposites.length === 2) {
+      addClothConstraint(
+        state,
+        ConstraintKind.Bend,
+        opposites[0],
+        opposites[1],
+      );
+    }
+  }
+
+  const vertexData = new Float32Array(vertexCount * 9);
+  for (let i = 0; i < vertexCount; i++) {
+    vertexData.set(verts.slice(3 * i, 3 * i + 3), 9 * i);
+    vertexData.set(obj.color, 9 * i + 6);
+  }
+
+  obj.state = state;
+  obj.data = { vertexData, indexData: new Uint32Array(idx) };
+  obj.bakedRotation ??= obj.rotation;
+  delete obj.rotation;
+};
+
+const createSoftBodyVertices = (soft: SoftBody) => {
+  createMeshParticles(soft, soft.shape);
+  const { positions } = soft.state!;
+  const { indexData } = soft.data!;
+
+  // Wind the triangles outwards, so normals and the volume come out positive
+  if (getMeshVolume(positions, indexData) < 0) {
+    for (let i = 0; i < indexData.length; i += 3) {
+      [indexData[i + 1], indexData[i + 2]] = [
+        indexData[i + 2],
+        indexData[i + 1],
+      ];
+    }
+  }
+  soft.restVolume = getMeshVolume(positions, indexData);
+};
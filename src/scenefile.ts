@@ -0,0 +1,672 @@
+import { Quat, Vec2, Vec3 } from "gl-matrix";
+import Scene, {
+  ClothMaterials,
+  EmitterKind,
+  MeshObject,
+  ObjectKind,
+  Particles,
+  RopeMaterials,
+  SceneObject,
+  SoftBodyMaterials,
+  isParticleObject,
+} from "./scene";
+import { ForceField, ForceKind } from "./forces";
+import { CombineRule, PhysicsMaterials } from "./physicsmaterials";
+
+// Of the files serializeSceneFile writes, parseSceneFile reads this and older
+// ones
+export const sceneFileVersion = 1;
+
+// A scene file that isn't valid, at is the path to the bad value, like
+// objects[2].divisions
+export class SceneFileError extends Error {
+  file: string;
+  at: string;
+
+  constructor(file: string, at: string, message: string) {
+    super(at ? `${file}: ${at}: ${message}` : `${file}: ${message}`);
+    this.name = "SceneFileError";
+    this.file = file;
+    this.at = at;
+  }
+}
+
+export interface PhysicsSettings {
+  // m/s^2
+  gravity: Vec3;
+  substeps: number;
+  // Of the simulation clock, s
+  fixedDt: number;
+}
+
+export interface CameraSettings {
+  p: Vec3;
+  target: Vec3;
+  // Vertical, in radians
+  fov: number;
+}
+
+export interface LightSettings {
+  p: Vec3;
+}
+
+// Everything a scene file holds, settings missing from the file are filled
+// in with the defaults
+export interface SceneFile {
+  scene: Scene;
+  physics: PhysicsSettings;
+  camera: CameraSettings;
+  light: LightSettings;
+}
+
+type Fail = (at: string, message: string) => never;
+
+// Reads a JSON value into what the scene uses, failing with the value's path
+// when it isn't valid, and writes it back
+interface Field<T> {
+  read(value: unknown, at: string, fail: Fail): T;
+  write(value: T): unknown;
+}
+
+// A missing field fails unless it's optional, then it's left undefined or set
+// to default. Fields at their default aren't written.
+interface FieldSpec {
+  field: Field<unknown>;
+  optional?: boolean;
+  default?: () => unknown;
+}
+
+type Fields = Record<string, FieldSpec>;
+
+const required = <T>(field: Field<T>): FieldSpec => ({ field });
+
+const optional = <T>(field: Field<T>): FieldSpec => ({
+  field,
+  optional: true,
+});
+
+const defaulted = <T>(field: Field<T>, value: () => T): FieldSpec => ({
+  field,
+  optional: true,
+  default: value,
+});
+
+const child = (at: string, key: string) => (at ? `${at}.${key}` : key);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+interface NumberRange {
+  integer?: boolean;
+  min?: number;
+  above?: number;
+  below?: number;
+}
+
+const numberField = (range: NumberRange = {}): Field<number> => ({
+  read(value: unknown, at: string, fail: Fail) {
+    if (typeof value !== "number") fail(at, "must be a number");
+    if (range.integer && !Number.isInteger(value)) {
+      fail(at, "must be a whole number");
+    }
+    if (range.min !== undefined && value < range.min) {
+      fail(at, `must be at least ${range.min}`);
+    }
+    if (range.above !== undefined && value <= range.above) {
+      fail(at, `must be greater than ${range.above}`);
+    }
+    if (range.below !== undefined && value >= range.below) {
+      fail(at, `must be less than ${range.below}`);
+    }
+    return value;
+  },
+  write: (value) => value,
+});
+
+const anyNumber = numberField();
+const positive = numberField({ above: 0 });
+const nonNegative = numberField({ min: 0 });
+const count = (min: number) => numberField({ integer: true, min });
+
+const booleanField: Field<boolean> = {
+  read(value: unknown, at: string, fail: Fail) {
+    if (typeof value !== "boolean") fail(at, "must be true or false");
+    return value;
+  },
+  write: (value) => value,
+};
+
+const stringField: Field<string> = {
+  read(value: unknown, at: string, fail: Fail) {
+    if (typeof value !== "string" || value === "") {
+      fail(at, "must be a non-empty string");
+    }
+    return value;
+  },
+  write: (value) => value,
+};
+
+// Shortest decimal that reads back as the same 32 bit float, so vectors don't
+// come out as 0.11764705926179886
+const roundFloat32 = (x: number) => {
+  for (let digits = 1; digits < 9; digits++) {
+    const rounded = Number(x.toPrecision(digits));
+    if (Math.fround(rounded) === x) return rounded;
+  }
+  return x;
+};
+
+const vectorField = <T extends Float32Array>(
+  length: number,
+  create: () => T,
+  component = anyNumber,
+): Field<T> => ({
+  read(value: unknown, at: string, fail: Fail) {
+    if (!Array.isArray(value) || value.length !== length) {
+      fail(at, `must be an array of ${length} numbers`);
+    }
+    const vector = create();
+    value.forEach((x, i) => {
+      vector[i] = component.read(x, `${at}[${i}]`, fail);
+    });
+    return vector;
+  },
+  write: (vector) => Array.from(vector, roundFloat32),
+});
+
+const vec3 = vectorField(3, () => new Vec3());
+
+// Normalized, as long as it isn't zero
+const quat: Field<Quat> = {
+  read(value: unknown, at: string, fail: Fail) {
+    const q = vectorField(4, () => Quat.create()).read(value, at, fail);
+    if (Quat.length(q) === 0) fail(at, "must not be all zeros");
+    return Quat.normalize(q, q) as Quat;
+  },
+  write: (q) => Array.from(q, roundFloat32),
+};
+
+// Enum members go by name
+const enumField = <T extends number>(
+  values: Record<string, string | number>,
+  allowed?: T[],
+): Field<T> => {
+  const names = Object.keys(values).filter(
+    (name) =>
+      typeof values[name] === "number" &&
+      (!allowed || allowed.includes(values[name] as T)),
+  );
+  return {
+    read(value: unknown, at: string, fail: Fail) {
+      if (typeof value !== "string" || !names.includes(value)) {
+        fail(
+          at,
+          `must be one of ${names.map((name) => `"${name}"`).join(", ")}`,
+        );
+      }
+      return values[value] as T;
+    },
+    write: (value) => values[value],
+  };
+};
+
+const arrayField = <T>(item: Field<T>): Field<T[]> => ({
+  read(value: unknown, at: string, fail: Fail) {
+    if (!Array.isArray(value)) fail(at, "must be an array");
+    return value.map((x, i) => item.read(x, `${at}[${i}]`, fail));
+  },
+  write: (values) => values.map((value) => item.write(value)),
+});
+
+const structField = <T>(fields: Fields): Field<T> => ({
+  read(value: unknown, at: string, fail: Fail) {
+    if (!isRecord(value)) fail(at, "must be an object");
+    const known = Object.keys(fields);
+    for (const key of Object.keys(value)) {
+      if (!known.includes(key)) {
+        fail(child(at, key), "isn't a known field");
+      }
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, spec] of Object.entries(fields)) {
+      if (value[key] === undefined) {
+        if (spec.default) result[key] = spec.default();
+        else if (!spec.optional) fail(child(at, key), "is missing");
+        continue;
+      }
+      result[key] = spec.field.read(value[key], child(at, key), fail);
+    }
+    return result as T;
+  },
+  write(value) {
+    const values = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const [key, spec] of Object.entries(fields)) {
+      if (values[key] === undefined) continue;
+      const written = spec.field.write(values[key]);
+      if (
+        spec.default &&
+        JSON.stringify(written) ===
+          JSON.stringify(spec.field.write(spec.default()))
+      ) {
+        continue;
+      }
+      result[key] = written;
+    }
+    return result;
+  },
+});
+
+// One of several kinds of object, told apart by their kind field. common are
+// the fields every kind has.
+const unionField = <T extends { kind: number }>(
+  kinds: Record<string, string | number>,
+  variants: Partial<Record<number, Fields>>,
+  common: Fields = {},
+): Field<T> => {
+  const kindField = enumField(kinds, Object.keys(variants).map(Number));
+  const structs = new Map(
+    Object.entries(variants).map(([kind, fields]) => [
+      Number(kind),
+      structField<T>({ kind: required(kindField), ...fields, ...common }),
+    ]),
+  );
+  return {
+    read(value: unknown, at: string, fail: Fail) {
+      if (!isRecord(value)) fail(at, "must be an object");
+      if (value.kind === undefined) fail(child(at, "kind"), "is missing");
+      const kind = kindField.read(value.kind, child(at, "kind"), fail);
+      return structs.get(kind)!.read(value, at, fail);
+    },
+    write: (value) => structs.get(value.kind)!.write(value),
+  };
+};
+
+// A preset by its name, or the values themselves. Presets are written by name
+// as long as the object uses the preset itself.
+const presetField = <T>(
+  presets: Record<string, T>,
+  field: Field<T>,
+): Field<T> => {
+  const names = Object.keys(presets);
+  return {
+    read(value: unknown, at: string, fail: Fail) {
+      if (typeof value !== "string") return field.read(value, at, fail);
+      if (!names.includes(value)) {
+        fail(
+          at,
+          `must be one of ${names.map((name) => `"${name}"`).join(", ")} or an object`,
+        );
+      }
+      return presets[value];
+    },
+    write: (value) =>
+      names.find((name) => presets[name] === value) ?? field.write(value),
+  };
+};
+
+const physicsMaterialField = presetField(
+  PhysicsMaterials,
+  structField({
+    friction: required(nonNegative),
+    restitution: required(nonNegative),
+    margin: required(nonNegative),
+    combine: optional(enumField(CombineRule)),
+  }),
+);
+
+const commonFields: Fields = {
+  color: defaulted(vec3, () => new Vec3(1, 1, 1)),
+  p: defaulted(vec3, () => new Vec3()),
+  v: defaulted(vec3, () => new Vec3()),
+  a: defaulted(vec3, () => new Vec3()),
+  rotation: optional(quat),
+  mass: optional(positive),
+  w: optional(vec3),
+  collidable: optional(booleanField),
+  physicsMaterial: optional(physicsMaterialField),
+};
+
+const pinsField = arrayField(
+  structField({ vertex: required(count(0)), p: optional(vec3) }),
+);
+
+const attachmentsField = arrayField(
+  structField({
+    vertex: required(count(0)),
+    object: required(count(0)),
+    offset: optional(vec3),
+  }),
+);
+
+const meshObjectFields: Partial<Record<ObjectKind, Fields>> = {
+  [ObjectKind.Box]: {
+    length: required(positive),
+    width: required(positive),
+    height: required(positive),
+    divisions: optional(vectorField(3, () => new Vec3(), count(1))),
+  },
+  [ObjectKind.Sphere]: {
+    radius: required(positive),
+    hPrec: required(count(3)),
+    vPrec: required(count(1)),
+  },
+  [ObjectKind.Capsule]: {
+    radius: required(positive),
+    height: required(nonNegative),
+    hPrec: required(count(3)),
+    vPrec: required(count(1)),
+  },
+  [ObjectKind.Plane]: {
+    length: required(positive),
+    width: required(positive),
+  },
+  [ObjectKind.Model]: {
+    filepath: required(stringField),
+  },
+};
+
+const shapeField = unionField<MeshObject>(
+  ObjectKind,
+  meshObjectFields,
+  commonFields,
+);
+
+const { [ObjectKind.Plane]: _, ...closedMeshObjectFields } = meshObjectFields;
+
+const emitterField = unionField<Particles["emitter"]>(EmitterKind, {
+  [EmitterKind.Point]: {},
+  [EmitterKind.Sphere]: { radius: required(positive) },
+  [EmitterKind.Box]: { size: required(vec3) },
+  [EmitterKind.Mesh]: { object: required(count(0)) },
+});
+
+const objectField = unionField<SceneObject>(
+  ObjectKind,
+  {
+    ...meshObjectFields,
+    [ObjectKind.Cloth]: {
+      length: optional(positive),
+      width: optional(positive),
+      divisions: optional(vectorField(2, () => new Vec2(), count(1))),
+      shape: optional(shapeField),
+      pins: optional(pinsField),
+      attachments: optional(attachmentsField),
+      selfCollision: optional(booleanField),
+      material: optional(
+        presetField(
+          ClothMaterials,
+          structField({
+            density: required(positive),
+            stretchCompliance: required(nonNegative),
+            shearCompliance: required(nonNegative),
+            bendCompliance: required(nonNegative),
+            dragCoefficient: optional(nonNegative),
+            liftCoefficient: optional(nonNegative),
+          }),
+        ),
+      ),
+      tearRatio: optional(numberField({ above: 1 })),
+    },
+    [ObjectKind.Rope]: {
+      length: required(positive),
+      segments: required(count(1)),
+      radius: required(positive),
+      sides: optional(count(3)),
+      direction: optional(vec3),
+      roots: optional(arrayField(vec3)),
+      pins: optional(pinsField),
+      attachments: optional(attachmentsField),
+      material: optional(
+        presetField(
+          RopeMaterials,
+          structField({
+            density: required(positive),
+            stretchCompliance: required(nonNegative),
+            bendCompliance: required(nonNegative),
+            dragCoefficient: optional(nonNegative),
+          }),
+        ),
+      ),
+    },
+    [ObjectKind.SoftBody]: {
+      shape: required(
+        unionField(ObjectKind, closedMeshObjectFields, commonFields),
+      ),
+      pressure: optional(positive),
+      pins: optional(pinsField),
+      attachments: optional(attachmentsField),
+      material: optional(
+        presetField(
+          SoftBodyMaterials,
+          structField({
+            density: required(positive),
+            stretchCompliance: required(nonNegative),
+            bendCompliance: required(nonNegative),
+            volumeCompliance: required(nonNegative),
+            dragCoefficient: optional(nonNegative),
+            liftCoefficient: optional(nonNegative),
+          }),
+        ),
+      ),
+    },
+    [ObjectKind.Particles]: {
+      emitter: required(emitterField),
+      rate: required(nonNegative),
+      lifetime: required(positive),
+      velocity: required(vec3),
+      velocitySpread: optional(nonNegative),
+      colorOverLife: optional(arrayField(vec3)),
+      sizeOverLife: optional(arrayField(nonNegative)),
+      maxParticles: optional(count(1)),
+      seed: optional(anyNumber),
+      drag: optional(nonNegative),
+    },
+  },
+  commonFields,
+);
+
+const forceField = unionField<ForceField>(ForceKind, {
+  [ForceKind.Wind]: { velocity: required(vec3) },
+  [ForceKind.TurbulentWind]: {
+    velocity: required(vec3),
+    turbulence: required(nonNegative),
+    scale: required(positive),
+    frequency: required(nonNegative),
+    seed: optional(anyNumber),
+  },
+  [ForceKind.Attractor]: {
+    p: required(vec3),
+    strength: required(anyNumber),
+    radius: required(positive),
+  },
+  [ForceKind.Vortex]: {
+    p: required(vec3),
+    axis: required(vec3),
+    strength: required(anyNumber),
+    radius: required(positive),
+  },
+  [ForceKind.Damping]: { coefficient: required(nonNegative) },
+});
+
+// What the JSON of a scene file holds
+interface SceneFileContents {
+  version: number;
+  physics: PhysicsSettings;
+  camera: CameraSettings;
+  light: LightSettings;
+  forces: ForceField[];
+  objects: SceneObject[];
+}
+
+const sceneFileField = structField<SceneFileContents>({
+  version: required(count(1)),
+  physics: defaulted(
+    structField<PhysicsSettings>({
+      gravity: defaulted(vec3, () => new Vec3(0, -9.8, 0)),
+      substeps: defaulted(count(1), () => 10),
+      fixedDt: defaulted(positive, () => 1 / 60),
+    }),
+    () => ({ gravity: new Vec3(0, -9.8, 0), substeps: 10, fixedDt: 1 / 60 }),
+  ),
+  camera: defaulted(
+    structField<CameraSettings>({
+      p: required(vec3),
+      target: required(vec3),
+      fov: defaulted(
+        numberField({ above: 0, below: Math.PI }),
+        () => Math.PI / 4,
+      ),
+    }),
+    () => ({ p: new Vec3(0, 9, 9), target: new Vec3(), fov: Math.PI / 4 }),
+  ),
+  light: defaulted(structField<LightSettings>({ p: required(vec3) }), () => ({
+    p: new Vec3(100, 100, 100),
+  })),
+  forces: defaulted(arrayField(forceField), () => []),
+  objects: required(arrayField(objectField)),
+});
+
+// What the fields can't check on their own, like references between objects
+const checkObjects = (objects: SceneObject[], fail: Fail) => {
+  const checkReference = (object: number, self: number, at: string) => {
+    if (object >= objects.length) {
+      fail(at, `is ${object}, but there are only ${objects.length} objects`);
+    }
+    if (object === self) fail(at, "can't be the object itself");
+  };
+
+  objects.forEach((obj, i) => {
+    const at = `objects[${i}]`;
+    if (obj.kind === ObjectKind.Cloth && !obj.shape) {
+      for (const key of ["length", "width"] as const) {
+        if (obj[key] === undefined) {
+          fail(`${at}.${key}`, "is required for cloth without a shape");
+        }
+      }
+    }
+    if (isParticleObject(obj)) {
+      obj.attachments?.forEach(({ object }, k) =>
+        checkReference(object, i, `${at}.attachments[${k}].object`),
+      );
+    }
+    if (
+      obj.kind === ObjectKind.Particles &&
+      obj.emitter.kind === EmitterKind.Mesh
+    ) {
+      checkReference(obj.emitter.object, i, `${at}.emitter.object`);
+    }
+  });
+};
+
+// name is only used in errors
+export const parseSceneFile = (
+  content: string,
+  name = "scene.json",
+): SceneFile => {
+  const fail: Fail = (at, message) => {
+    throw new SceneFileError(name, at, message);
+  };
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (e) {
+    return fail("", `isn't valid JSON, ${(e as Error).message}`);
+  }
+
+  // Before anything else, newer files may not look like this one expects
+  if (!isRecord(json)) fail("", "must be an object");
+  if (json.version === undefined) fail("version", "is missing");
+  const version = count(1).read(json.version, "version", fail);
+  if (version > sceneFileVersion) {
+    fail(
+      "version",
+      `is ${version}, only up to ${sceneFileVersion} is supported`,
+    );
+  }
+
+  const { physics, camera, light, forces, objects } = sceneFileField.read(
+    json,
+    "",
+    fail,
+  );
+  checkObjects(objects, fail);
+  return { scene: new Scene(objects, forces), physics, camera, light };
+};
+
+// Fetches and parses the scene file at path, relative to the page
+export const loadSceneFile = async (path: string) => {
+  let res: Response;
+  try {
+    res = await fetch(path);
+  } catch (e) {
+    throw new SceneFileError(path, "", String(e));
+  }
+  if (!res.ok) {
+    throw new SceneFileError(path, "", `${res.status} ${res.statusText}`);
+  }
+  return parseSceneFile(await res.text(), path);
+};
+
+const formatInline = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(formatInline).join(", ")}]`;
+  if (isRecord(value)) {
+    const entries = Object.entries(value).map(
+      ([key, item]) => `${JSON.stringify(key)}: ${formatInline(item)}`,
+    );
+    return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+  }
+  return JSON.stringify(value);
+};
+
+// Indented JSON, with anything that fits in 80 columns kept on one line
+const formatJson = (value: unknown, indent = "", prefix = ""): string => {
+  const line = formatInline(value);
+  if (
+    indent.length + prefix.length + line.length <= 80 ||
+    (!Array.isArray(value) && !isRecord(value))
+  ) {
+    return line;
+  }
+
+  const inner = indent + "  ";
+  const items = Array.isArray(value)
+    ? value.map((item) => formatJson(item, inner))
+    : Object.entries(value).map(([key, item]) => {
+        const itemPrefix = `${JSON.stringify(key)}: `;
+        return itemPrefix + formatJson(item, inner, itemPrefix);
+      });
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+  return `${open}\n${items.map((item) => inner + item).join(",\n")}\n${indent}${close}`;
+};
+
+// Cloth and soft bodies made of a shape have the rotation they were defined
+// with baked into their particles, and kept in bakedRotation
+const getDefinition = (obj: SceneObject): SceneObject =>
+  (obj.kind === ObjectKind.Cloth || obj.kind === ObjectKind.SoftBody) &&
+  obj.shape &&
+  obj.state
+    ? { ...obj, rotation: obj.bakedRotation }
+    : obj;
+
+// A scene file of the objects as they were defined, at their current
+// positions, velocities and rotations. What the simulation built from them,
+// like the drape of cloth or live particles, isn't kept.
+export const serializeSceneFile = ({
+  scene,
+  physics,
+  camera,
+  light,
+}: SceneFile) =>
+  formatJson(
+    sceneFileField.write({
+      version: sceneFileVersion,
+      physics,
+      camera,
+      light,
+      forces: scene.forces,
+      objects: scene.objects.map(getDefinition),
+    }),
+  ) + "\n";
@@ -0,0 +1,149 @@
+import { Quat, Vec3 } from "gl-matrix";
+import Scene, { ObjectKind, ParticleObject, isParticleObject } from "./scene";
+import { ParticleState, cloneParticleState } from "./particles";
+
+// Everything about a cloth or rope that only changes when it tears
+export interface ClothTopology {
+  vertexCount: number;
+  restPositions: Float32Array;
+  constraintCount: number;
+  constraintVertices: Uint32Array;
+  constraintKinds: Uint8Array;
+  restLengths: Float32Array;
+  indexData: Uint32Array;
+}
+
+// topology is shared with the previous snapshot while the cloth hasn't torn
+export interface ClothSnapshot {
+  positions: Float32Array;
+  prevPositions: Float32Array;
+  vertexData: Float32Array;
+  topology: ClothTopology;
+}
+
+export interface ObjectSnapshot {
+  p: Float32Array;
+  v: Float32Array;
+  a: Float32Array;
+  w: Float32Array | null;
+  rotation: Float32Array | null;
+  cloth: ClothSnapshot | null;
+  particles: ParticleState | null;
+}
+
+// Plain typed arrays all the way down, so snapshots survive structured cloning
+export interface Snapshot {
+  // Modeler time
+  time: number;
+  objects: ObjectSnapshot[];
+}
+
+const isSameTopology = (cloth: ParticleObject, topology: ClothTopology) =>
+  topology.indexData === cloth.data!.indexData &&
+  topology.vertexCount === cloth.state!.vertexCount &&
+  topology.constraintCount === cloth.state!.constraintCount;
+
+const captureTopology = (cloth: ParticleObject): ClothTopology => {
+  const state = cloth.state!;
+  return {
+    vertexCount: state.vertexCount,
+    restPositions: state.restPositions.slice(0, 3 * state.vertexCount),
+    constraintCount: state.constraintCount,
+    constraintVertices: state.constraintVertices.slice(
+      0,
+      2 * state.constraintCount,
+    ),
+    constraintKinds: state.constraintKinds.slice(0, state.constraintCount),
+    restLengths: state.restLengths.slice(0, state.constraintCount),
+    // Tearing replaces indexData instead of changing it
+    indexData: cloth.data!.indexData,
+  };
+};
+
+const captureCloth = (
+  cloth: ParticleObject,
+  previous: ClothSnapshot | null,
+): ClothSnapshot => {
+  const state = cloth.state!;
+  return {
+    positions: state.positions.slice(0, 3 * state.vertexCount),
+    prevPositions: state.prevPositions.slice(0, 3 * state.vertexCount),
+    vertexData: cloth.data!.vertexData.slice(),
+    topology:
+      previous && isSameTopology(cloth, previous.topology)
+        ? previous.topology
+        : captureTopology(cloth),
+  };
+};
+
+// Copies the simulated state of every object, previous is an earlier snapshot
+// of the same scene to share unchanged cloth topology with. Cloth vertex data
+// has to be taken between steps, not after the clock blended it.
+export const captureSnapshot = (
+  scene: Scene,
+  time: number,
+  previous: Snapshot | null = null,
+): Snapshot => ({
+  time,
+  objects: scene.objects.map((obj, i) => ({
+    p: new Float32Array(obj.p),
+    v: new Float32Array(obj.v),
+    a: new Float32Array(obj.a),
+    w: obj.w ? new Float32Array(obj.w) : null,
+    rotation: obj.rotation ? new Float32Array(obj.rotation) : null,
+    cloth:
+      isParticleObject(obj) && obj.state && obj.data
+        ? captureCloth(obj, previous?.objects[i]?.cloth ?? null)
+        : null,
+    particles:
+      obj.kind === ObjectKind.Particles && obj.state
+        ? cloneParticleState(obj.state)
+        : null,
+  })),
+});
+
+// Puts the scene back the way it was when snapshot was taken. The snapshot is
+// copied, so it can be applied again later.
+export const applySnapshot = (scene: Scene, snapshot: Snapshot) => {
+  scene.objects.forEach((obj, i) => {
+    const saved = snapshot.objects[i];
+    if (!saved) return;
+
+    obj.p.set(saved.p);
+    obj.v.set(saved.v);
+    obj.a.set(saved.a);
+    if (saved.w) {
+      obj.w ??= new Vec3();
+      obj.w.set(saved.w);
+    }
+    if (saved.rotation) {
+      obj.rotation ??= Quat.create();
+      obj.rotation.set(saved.rotation);
+    }
+    delete obj.render;
+
+    if (obj.kind === ObjectKind.Particles && saved.particles) {
+      obj.state = cloneParticleState(saved.particles);
+    }
+
+    if (!isParticleObject(obj) || !saved.cloth || !obj.data) return;
+    const { positions, prevPositions, vertexData, topology } = saved.cloth;
+
+    obj.state = {
+      vertexCount: topology.vertexCount,
+      positions: positions.slice(),
+      prevPositions: prevPositions.slice(),
+      restPositions: topology.restPositions.slice(),
+      // Both are recomputed at the start of every step
+      accelerations: new Float32Array(positions.length),
+      invMasses: new Float32Array(topology.vertexCount),
+
+      constraintCount: topology.constraintCount,
+      constraintVertices: topology.constraintVertices.slice(),
+      constraintKinds: topology.constraintKinds.slice(),
+      restLengths: topology.restLengths.slice(),
+    };
+    obj.data.vertexData = vertexData.slice();
+    obj.data.indexData = topology.indexData;
+  });
+};
@@ -0,0 +1,93 @@
+import { Vec3Like } from "gl-matrix";
+
+// Uniform grid hashed into a fixed size table, rebuilt every query pass.
+// Entries of a cell are stored contiguously in cellEntries starting at
+// cellStart[cell].
+export default class SpatialHash {
+  spacing: number;
+  tableSize: number;
+  cellStart: Int32Array;
+  cellEntries: Int32Array;
+  queryIds: Int32Array;
+  querySize = 0;
+
+  constructor(spacing: number, maxNumObjects: number) {
+    this.spacing = spacing;
+    this.tableSize = 2 * maxNumObjects;
+    this.cellStart = new Int32Array(this.tableSize + 1);
+    this.cellEntries = new Int32Array(maxNumObjects);
+    this.queryIds = new Int32Array(maxNumObjects);
+  }
+
+  private hashCoords(xi: number, yi: number, zi: number) {
+    const h = (xi * 92837111) ^ (yi * 689287499) ^ (zi * 283923481);
+    return Math.abs(h) % this.tableSize;
+  }
+
+  private intCoord(coord: number) {
+    return Math.floor(coord / this.spacing);
+  }
+
+  private hashPos(positions: ArrayLike<number>, i: number) {
+    return this.hashCoords(
+      this.intCoord(positions[3 * i]),
+      this.intCoord(positions[3 * i + 1]),
+      this.intCoord(positions[3 * i + 2]),
+    );
+  }
+
+  // Object i is at positions[3 * i] to positions[3 * i + 2]
+  create(positions: ArrayLike<number>, numObjects = positions.length / 3) {
+    numObjects = Math.min(numObjects, this.cellEntries.length);
+
+    this.cellStart.fill(0);
+    this.cellEntries.fill(0);
+
+    for (let i = 0; i < numObjects; i++) {
+      this.cellStart[this.hashPos(positions, i)]++;
+    }
+
+    let start = 0;
+    for (let i = 0; i < this.tableSize; i++) {
+      start += this.cellStart[i];
+      this.cellStart[i] = start;
+    }
+    this.cellStart[this.tableSize] = start;
+
+    for (let i = 0; i < numObjects; i++) {
+      const h = this.hashPos(positions, i);
+      this.cellStart[h]--;
+      this.cellEntries[this.cellStart[h]] = i;
+    }
+  }
+
+  // Fills queryIds with every object in a cell overlapping the cube of half
+  // size maxDist around p, callers still need to check the real distance
+  query(p: Readonly<Vec3Like>, maxDist: number) {
+    const x0 = this.intCoord(p[0] - maxDist);
+    const y0 = this.intCoord(p[1] - maxDist);
+    const z0 = this.intCoord(p[2] - maxDist);
+    const x1 = this.intCoord(p[0] + maxDist);
+    const y1 = this.intCoord(p[1] + maxDist);
+    const z1 = this.intCoord(p[2] + maxDist);
+
+    this.querySize = 0;
+    // A particle that blew up to infinity would never finish the loops below
+    if (!Number.isFinite(x0 + y0 + z0 + x1 + y1 + z1)) return;
+
+    for (let xi = x0; xi <= x1; xi++) {
+      for (let yi = y0; yi <= y1; yi++) {
+        for (let zi = z0; zi <= z1; zi++) {
+          const h = this.hashCoords(xi, yi, zi);
+          const start = this.cellStart[h];
+          const end = this.cellStart[h + 1];
+
+          for (let i = start; i < end; i++) {
+            if (this.querySize >= this.queryIds.length) return;
+            this.queryIds[this.querySize++] = this.cellEntries[i];
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { Vec3 } from "gl-matrix";
+import {
+  MeshGroup,
+  ModelMesh,
+  ModelParseError,
+  setSmoothNormals,
+} from "./modelmesh";
+
+// Triangles of an STL file as written, 9 floats each. Every solid of an ASCII
+// file is a group of triangles.
+export interface StlFile {
+  positions: Float32Array;
+  solids: MeshGroup[];
+}
+
+type Fail = (message: string) => never;
+
+const startsWithSolid = (data: ArrayBuffer) =>
+  new TextDecoder().decode(
+    new Uint8Array(data, 0, Math.min(data.byteLength, 5)),
+  ) === "solid";
+
+// Binary files are an 80 byte header, the triangle count and 50 bytes per
+// triangle. Some of them start with "solid" too, so the size is checked first.
+const hasBinaryStlSize = (data: ArrayBuffer) =>
+  data.byteLength >= 84 &&
+  data.byteLength === 84 + 50 * new DataView(data).getUint32(80, true);
+
+export const isStl = (data: ArrayBuffer) =>
+  hasBinaryStlSize(data) || startsWithSolid(data);
+
+const parseBinaryStl = (data: ArrayBuffer, name: string): StlFile => {
+  if (data.byteLength < 84) {
+    throw new ModelParseError(name, `${name}: is too short for an STL file`);
+  }
+  const view = new DataView(data);
+  const count = view.getUint32(80, true);
+  const complete = Math.floor((data.byteLength - 84) / 50);
+  if (complete < count) {
+    throw new ModelParseError(
+      name,
+      `${name}: has ${count} triangles but ends after ${complete}`,
+    );
+  }
+
+  const positions = new Float32Array(9 * count);
+  for (let i = 0; i < count; i++) {
+    // Past the facet normal, which is recomputed anyway
+    const offset = 84 + 50 * i + 12;
+    for (let k = 0; k < 9; k++) {
+      positions[9 * i + k] = view.getFloat32(offset + 4 * k, true);
+    }
+  }
+  return {
+    positions,
+    solids: [{ name: "default", material: null, start: 0, count: 3 * count }],
+  };
+};
+
+const parseAsciiStl = (content: string, name: string): StlFile => {
+  const lines = content.split(/\r?\n|\r/);
+  const positions: number[] = [];
+  const solids: MeshGroup[] = [];
+  let solid: MeshGroup | null = null;
+  let facetVertices = 0;
+  let facetLine = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = i + 1;
+    const fail: Fail = (message) => {
+      throw new ModelParseError(name, `${name}:${line}: ${message}`);
+    };
+    const [keyword, ...args] = lines[i].trim().split(/\s+/);
+
+    switch (keyword) {
+      case "solid":
+        if (solid) fail("solid starts before the last one ended");
+        solid = {
+          name: args.join(" ") || "default",
+          material: null,
+          start: positions.length / 3,
+          count: 0,
+        };
+        break;
+      case "facet":
+        if (!solid) fail("facet outside of a solid");
+        facetVertices = 0;
+        facetLine = line;
+        break;
+      case "vertex": {
+        if (args.length !== 3) {
+          fail(`expected 3 numbers but got ${args.length}`);
+        }
+        const p = args.map(Number);
+        if (!p.every(Number.isFinite)) {
+          fail(`"${args.join(" ")}" isn't a point`);
+        }
+        positions.push(...p);
+        facetVertices++;
+        break;
+      }
+      case "endfacet":
+        if (facetVertices !== 3) {
+          fail(
+            `the facet from line ${facetLine} has ${facetVertices} vertices`,
+          );
+        }
+        break;
+      case "endsolid":
+        if (!solid) fail("endsolid without a solid");
+        solid.count = positions.length / 3 - solid.start;
+        solids.push(solid);
+        solid = null;
+        break;
+    }
+  }
+
+  if (solid) {
+    throw new ModelParseError(name, `${name}: solid ${solid.name} never ends`);
+  }
+  return { positions: new Float32Array(positions), solids };
+};
+
+// name is only used in errors
+export const parseStl = (data: ArrayBuffer, name = "model.stl") =>
+  hasBinaryStlSize(data) || !startsWithSolid(data)
+    ? parseBinaryStl(data, name)
+    : parseAsciiStl(new TextDecoder().decode(data), name);
+
+// Welds the corners every facet repeats back together, so the smooth normals
+// run across the whole surface
+export const buildStlMesh = (file: StlFile, color: Vec3): ModelMesh => {
+  const { positions } = file;
+  const vertexData: number[] = [];
+  const indexData = new Uint32Array(positions.length / 3);
+  const vertices = new Map<string, number>();
+
+  for (let i = 0; i < indexData.length; i++) {
+    const [x, y, z] = positions.subarray(3 * i, 3 * i + 3);
+    const key = `${x},${y},${z}`;
+    let vertex = vertices.get(key);
+    if (vertex === undefined) {
+      vertex = vertexData.length / 9;
+      vertexData.push(x, y, z, 0, 0, 0, ...color);
+      vertices.set(key, vertex);
+    }
+    indexData[i] = vertex;
+  }
+
+  const mesh = {
+    vertexData: new Float32Array(vertexData),
+    indexData,
+    uvData: new Float32Array((2 * vertexData.length) / 9),
+    groups: file.solids.map((solid) => ({ ...solid })),
+  };
+  setSmoothNormals(mesh.vertexData, mesh.indexData);
+  return mesh;
+};
@@ -0,0 +1,160 @@
+import Scene from "./scene";
+import SimulationClock from "./clock";
+import Recorder from "./recorder";
+import { Snapshot, applySnapshot } from "./snapshot";
+
+export enum PlaybackMode {
+  Live,
+  Paused,
+  Replay,
+}
+
+// What the timeline needs from Modeler and WorkerModeler
+interface RewindableModeler {
+  step(dt: number, scene: Scene): Promise<void>;
+  takeSnapshot(scene: Scene): Snapshot | null;
+  restore(scene: Scene, snapshot: Snapshot): void;
+}
+
+// Records every simulation step and lets the user pause, scrub back through
+// the recording, replay it and resume simulating from any recorded frame.
+// Replaying only shows snapshots, the modeler is rewound when resuming.
+export default class Timeline {
+  mode = PlaybackMode.Live;
+  // Frame of the recorder on screen
+  frame = 0;
+
+  private scene: Scene;
+  private modeler: RewindableModeler;
+  private clock: SimulationClock;
+  private recorder: Recorder;
+
+  private replayTime = 0;
+  private lastTimestamp: number | null = null;
+
+  private liveButton: HTMLButtonElement;
+  private replayButton: HTMLButtonElement;
+  private slider: HTMLInputElement;
+  private timeEl: HTMLSpanElement;
+
+  constructor(
+    container: HTMLElement,
+    scene: Scene,
+    modeler: RewindableModeler,
+    clock: SimulationClock,
+    recorder = new Recorder(),
+  ) {
+    this.scene = scene;
+    this.modeler = modeler;
+    this.clock = clock;
+    this.recorder = recorder;
+
+    const el = document.createElement("div");
+    el.className = "timeline";
+    this.liveButton = document.createElement("button");
+    this.replayButton = document.createElement("button");
+    this.slider = document.createElement("input");
+    this.slider.type = "range";
+    this.slider.min = "0";
+    this.timeEl = document.createElement("span");
+    el.append(this.liveButton, this.replayButton, this.slider, this.timeEl);
+    container.appendChild(el);
+
+    this.liveButton.addEventListener("click", () =>
+      this.mode === PlaybackMode.Live ? this.pause() : this.resume(),
+    );
+    this.replayButton.addEventListener("click", () =>
+      this.mode === PlaybackMode.Replay ? this.pause() : this.replay(),
+    );
+    this.slider.addEventListener("input", () =>
+      this.seek(Number(this.slider.value)),
+    );
+    this.updateControls();
+  }
+
+  // Steps the simulation or replays the recording, call once per frame
+  tick = (timestamp: number) => {
+    const elapsed = (timestamp - (this.lastTimestamp ?? timestamp)) / 1e3;
+    this.lastTimestamp = timestamp;
+
+    switch (this.mode) {
+      case PlaybackMode.Live:
+        this.clock.tick(timestamp, this.scene, (dt) => {
+          this.modeler.step(dt, this.scene);
+          this.recorder.record(this.modeler.takeSnapshot(this.scene));
+        });
+        this.frame = Math.max(this.recorder.length - 1, 0);
+        break;
+      case PlaybackMode.Replay: {
+        this.replayTime += elapsed;
+        let frame = this.frame;
+        while (
+          frame + 1 < this.recorder.length &&
+          this.recorder.get(frame + 1)!.time <= this.replayTime
+        ) {
+          frame++;
+        }
+        this.show(frame);
+        if (frame === this.recorder.length - 1) this.pause();
+        break;
+      }
+    }
+    this.updateControls();
+  };
+
+  pause = () => {
+    this.mode = PlaybackMode.Paused;
+    this.show(this.frame);
+  };
+
+  seek = (frame: number) => {
+    if (this.mode === PlaybackMode.Live) this.mode = PlaybackMode.Paused;
+    this.show(frame);
+    if (this.mode === PlaybackMode.Replay) {
+      this.replayTime = this.recorder.get(this.frame)?.time ?? 0;
+    }
+  };
+
+  // Plays the recording from the current frame, or from the start when it's
+  // at the end
+  replay = () => {
+    if (this.frame >= this.recorder.length - 1) this.frame = 0;
+    const snapshot = this.recorder.get(this.frame);
+    if (!snapshot) return;
+
+    this.mode = PlaybackMode.Replay;
+    this.replayTime = snapshot.time;
+    this.show(this.frame);
+  };
+
+  // Simulates on from the current frame, dropping the recording after it
+  resume = () => {
+    const snapshot = this.recorder.get(this.frame);
+    if (snapshot) {
+      this.recorder.truncate(this.frame);
+      this.modeler.restore(this.scene, snapshot);
+    }
+    this.clock.reset();
+    this.mode = PlaybackMode.Live;
+  };
+
+  private show(frame: number) {
+    const snapshot = this.recorder.get(frame);
+    if (!snapshot) return;
+
+    this.frame = frame;
+    applySnapshot(this.scene, snapshot);
+  }
+
+  private updateControls() {
+    const live = this.mode === PlaybackMode.Live;
+    this.liveButton.textContent = live ? "Pause" : "Resume";
+    this.replayButton.textContent =
+      this.mode === PlaybackMode.Replay ? "Stop" : "Replay";
+    this.slider.max = String(Math.max(this.recorder.length - 1, 0));
+    this.slider.value = String(this.frame);
+
+    const time = this.recorder.get(this.frame)?.time ?? 0;
+    this.timeEl.textContent = `${time.toFixed(2)}s`;
+  }
+}
@@ -0,0 +1,317 @@
+import { Quat, Vec3 } from "gl-matrix";
+import Scene, { ObjectKind, SceneObject, isParticleObject } from "./scene";
+import { ParticleState } from "./particles";
+import { ForceField } from "./forces";
+import { isRigidBody } from "./rigidbodies";
+import { Grab } from "./modeler";
+import { ClothTopology, Snapshot, applySnapshot } from "./snapshot";
+import { DiagnosticsListener, StepDiagnostics } from "./diagnostics";
+
+export enum WorkerRequestKind {
+  Init,
+  Step,
+  Restore,
+}
+
+export interface InitRequest {
+  kind: WorkerRequestKind.Init;
+  objects: SceneObject[];
+  forces: ForceField[];
+  substeps: number;
+  gravity: Vec3;
+  time: number;
+}
+
+// buffers hands vertex buffers of earlier results back for reuse
+export interface StepRequest {
+  kind: WorkerRequestKind.Step;
+  dt: number;
+  steps: number;
+  transforms: Float32Array;
+  buffers: Float32Array[];
+  grab: Grab | null;
+  snapshot: boolean;
+  diagnostics: boolean;
+}
+
+// Results of steps requested before the latest restore are ignored, epoch
+// tells them apart
+export interface RestoreRequest {
+  kind: WorkerRequestKind.Restore;
+  snapshot: Snapshot;
+  epoch: number;
+}
+
+export type WorkerRequest = InitRequest | StepRequest | RestoreRequest;
+
+// Vertex data of cloth or a rope, indexData is only sent when tearing changed
+// it
+export interface ClothUpdate {
+  object: number;
+  vertexData: Float32Array;
+  indexData?: Uint32Array;
+}
+
+// Live particles of a particle system
+export interface ParticleUpdate {
+  object: number;
+  state: ParticleState;
+}
+
+export interface WorkerResult {
+  epoch: number;
+  time: number;
+  transforms: Float32Array;
+  cloths: ClothUpdate[];
+  particles: ParticleUpdate[];
+  snapshot?: Snapshot;
+  // One per step, in order
+  diagnostics?: StepDiagnostics[];
+}
+
+// p, rotation and v of every object, in that order
+export const transformSize = 10;
+
+export const writeTransforms = (objects: SceneObject[]) => {
+  const transforms = new Float32Array(objects.length * transformSize);
+  objects.forEach((obj, i) => {
+    const offset = i * transformSize;
+    transforms.set(obj.p, offset);
+    transforms.set(obj.rotation ?? [0, 0, 0, 1], offset + 3);
+    transforms.set(obj.v, offset + 7);
+  });
+  return transforms;
+};
+
+export const readTransform = (
+  transforms: Float32Array,
+  i: number,
+  obj: SceneObject,
+) => {
+  const offset = i * transformSize;
+  obj.p.set(transforms.subarray(offset, offset + 3));
+  obj.rotation ??= Quat.create();
+  obj.rotation.set(transforms.subarray(offset + 3, offset + 7));
+  obj.v.set(transforms.subarray(offset + 7, offset + 10));
+};
+
+const isEqualArray = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+};
+
+const isEqualTopology = (a: ClothTopology, b: ClothTopology) =>
+  a.vertexCount === b.vertexCount &&
+  a.constraintCount === b.constraintCount &&
+  isEqualArray(a.indexData, b.indexData) &&
+  isEqualArray(a.restLengths, b.restLengths) &&
+  isEqualArray(a.constraintVertices, b.constraintVertices) &&
+  isEqualArray(a.constraintKinds, b.constraintKinds) &&
+  isEqualArray(a.restPositions, b.restPositions);
+
+// Cloning gives every snapshot its own copy of the cloth topology, point
+// unchanged ones back at the previous snapshot's to keep recordings small
+const shareTopology = (snapshot: Snapshot, previous: Snapshot | null) => {
+  snapshot.objects.forEach(({ cloth }, i) => {
+    const previousTopology = previous?.objects[i]?.cloth?.topology;
+    if (
+      cloth &&
+      previousTopology &&
+      isEqualTopology(cloth.topology, previousTopology)
+    ) {
+      cloth.topology = previousTopology;
+    }
+  });
+};
+
+// Steps the scene in a dedicated worker so heavy physics doesn't hold up
+// rendering and input. The worker owns rigid bodies, cloth and particles,
+// every step call copies the latest finished result into the scene and queues
+// another step.
+// Objects the worker doesn't simulate are sent over on every step, so they can
+// still be moved from this side. Cloth state on this side goes stale, so
+// snapshots come from the worker too, once the first one is asked for.
+export default class WorkerModeler {
+  substeps: number;
+  // m/s^2, like substeps it's sent to the worker with the scene
+  gravity = new Vec3(0, -9.8, 0);
+  // Simulated seconds of the latest result
+  time = 0;
+  grab: Grab | null = null;
+
+  private worker: Worker;
+  private initialized = false;
+  private busy = false;
+  private pendingSteps = 0;
+  private dt = 0;
+  private scene: Scene | null = null;
+
+  private latestTransforms: Float32Array | null = null;
+  private latestVertexData = new Map<number, Float32Array>();
+  private latestIndexData = new Map<number, Uint32Array>();
+  private latestParticles = new Map<number, ParticleState>();
+  private spareBuffers: Float32Array[] = [];
+  private latestSnapshot: Snapshot | null = null;
+  private wantsSnapshots = false;
+  private listeners = new Set<DiagnosticsListener>();
+  private epoch = 0;
+
+  constructor(substeps = 10) {
+    this.substeps = substeps;
+    this.worker = new Worker(new URL("./modelerworker.ts", import.meta.url), {
+      type: "module",
+    });
+    this.worker.onmessage = (e: MessageEvent<WorkerResult>) =>
+      this.receive(e.data);
+    this.worker.onerror = (e) => console.error(e);
+  }
+
+  step = async (dt: number, scene: Scene) => {
+    if (!this.initialized) {
+      const request: InitRequest = {
+        kind: WorkerRequestKind.Init,
+        objects: scene.objects,
+        forces: scene.forces,
+        substeps: this.substeps,
+        gravity: this.gravity,
+        time: this.time,
+      };
+      this.worker.postMessage(request);
+      this.initialized = true;
+    }
+
+    this.scene = scene;
+    this.apply(scene);
+
+    this.dt = dt;
+    this.pendingSteps++;
+    this.flush();
+  };
+
+  // Diagnostics of the worker's steps arrive with their results
+  subscribe = (listener: DiagnosticsListener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Snapshot of the result the scene was last updated with
+  takeSnapshot = () => {
+    this.wantsSnapshots = true;
+    return this.latestSnapshot;
+  };
+
+  restore = (scene: Scene, snapshot: Snapshot) => {
+    applySnapshot(scene, snapshot);
+    this.time = snapshot.time;
+    if (!this.initialized) return;
+
+    this.epoch++;
+    const request: RestoreRequest = {
+      kind: WorkerRequestKind.Restore,
+      snapshot,
+      epoch: this.epoch,
+    };
+    this.worker.postMessage(request);
+
+    this.spareBuffers.push(...this.latestVertexData.values());
+    this.latestVertexData.clear();
+    this.latestIndexData.clear();
+    this.latestParticles.clear();
+    this.latestTransforms = null;
+    this.latestSnapshot = snapshot;
+    this.pendingSteps = 0;
+  };
+
+  terminate = () => {
+    this.worker.terminate();
+  };
+
+  private flush() {
+    if (this.busy || this.pendingSteps === 0 || !this.scene) return;
+
+    const request: StepRequest = {
+      kind: WorkerRequestKind.Step,
+      dt: this.dt,
+      steps: this.pendingSteps,
+      transforms: writeTransforms(this.scene.objects),
+      buffers: this.spareBuffers,
+      grab: this.grab,
+      snapshot: this.wantsSnapshots,
+      diagnostics: this.listeners.size > 0,
+    };
+    this.worker.postMessage(request, [
+      request.transforms.buffer,
+      ...request.buffers.map((buffer) => buffer.buffer),
+    ]);
+
+    this.spareBuffers = [];
+    this.pendingSteps = 0;
+    this.busy = true;
+  }
+
+  private receive(result: WorkerResult) {
+    this.busy = false;
+    if (result.epoch !== this.epoch) {
+      for (const { vertexData } of result.cloths) {
+        this.spareBuffers.push(vertexData);
+      }
+      this.flush();
+      return;
+    }
+
+    for (const { object, vertexData, indexData } of result.cloths) {
+      const previous = this.latestVertexData.get(object);
+      if (previous) this.spareBuffers.push(previous);
+      this.latestVertexData.set(object, vertexData);
+      if (indexData) this.latestIndexData.set(object, indexData);
+    }
+    for (const { object, state } of result.particles) {
+      this.latestParticles.set(object, state);
+    }
+
+    for (const diagnostics of result.diagnostics ?? []) {
+      for (const listener of this.listeners) listener(diagnostics);
+    }
+
+    if (result.snapshot) {
+      shareTopology(result.snapshot, this.latestSnapshot);
+      this.latestSnapshot = result.snapshot;
+    }
+
+    this.latestTransforms = result.transforms;
+    this.time = result.time;
+    this.flush();
+  }
+
+  // The clock blends vertex data in place, so the latest result is copied in
+  // again on every step instead of handing over its buffers
+  private apply(scene: Scene) {
+    const transforms = this.latestTransforms;
+    if (!transforms) return;
+
+    scene.objects.forEach((obj, i) => {
+      if (isRigidBody(obj)) readTransform(transforms, i, obj);
+    });
+
+    for (const [object, vertexData] of this.latestVertexData) {
+      const obj = scene.objects[object];
+      if (!isParticleObject(obj) || !obj.data) continue;
+
+      obj.data.indexData =
+        this.latestIndexData.get(object) ?? obj.data.indexData;
+      if (obj.data.vertexData.length === vertexData.length) {
+        obj.data.vertexData.set(vertexData);
+      } else {
+        obj.data.vertexData = vertexData.slice();
+      }
+    }
+
+    for (const [object, state] of this.latestParticles) {
+      const obj = scene.objects[object];
+      if (obj.kind === ObjectKind.Particles) obj.state = state;
+    }
+  }
+}